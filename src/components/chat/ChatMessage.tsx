@@ -1,12 +1,20 @@
 import { cn } from '@/lib/utils';
-import { User, Sparkles, FileCode, Eye, ExternalLink } from 'lucide-react';
+import {
+  User, Sparkles, FileCode, Eye, ExternalLink, Wand2, CircleStop, AlertTriangle, Loader2, FileText, Image,
+} from 'lucide-react';
 import { useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import logo from '@/assets/logo.png';
+import { FileOperation, parseMessageSegments } from '@/lib/fileOperations';
+import { FixRequestInfo, parseFixRequest } from '@/lib/previewFix';
+import { MessageStatus } from '@/hooks/useChat';
+import { MessageAttachment, formatFileSize, splitAttachmentContext } from '@/lib/attachments';
 
 interface ChatMessageProps {
   role: 'user' | 'assistant';
   content: string;
+  status?: MessageStatus;
+  attachments?: MessageAttachment[];
   onViewCode?: () => void;
 }
 
@@ -15,10 +23,38 @@ interface ParsedContent {
   content: string;
   language?: string;
   filename?: string;
+  action?: FileOperation['type'];
+  pending?: boolean;
+  cutOff?: boolean;
 }
 
-// Parse content but hide code blocks - show only references
-function parseContentNoCode(content: string): ParsedContent[] {
+// Parse content but hide code and file operations - show only references
+function parseContentNoCode(content: string, status?: MessageStatus): ParsedContent[] {
+  const parts: ParsedContent[] = [];
+  const streaming = status === 'streaming';
+
+  for (const segment of parseMessageSegments(content, { final: !status || status === 'complete' })) {
+    if (segment.type === 'text') {
+      parts.push(...parseFencedContent(segment.content));
+      continue;
+    }
+
+    const { operation } = segment;
+    parts.push({
+      type: 'code-reference',
+      content: 'content' in operation ? operation.content : '',
+      language: 'language' in operation ? operation.language : 'file',
+      filename: operation.type === 'rename' ? `${operation.path} → ${operation.to}` : operation.path,
+      action: operation.type,
+      pending: !segment.complete && streaming,
+      cutOff: !segment.complete && !streaming,
+    });
+  }
+
+  return parts.length > 0 ? parts : [{ type: 'text', content }];
+}
+
+function parseFencedContent(content: string): ParsedContent[] {
   const parts: ParsedContent[] = [];
   const codeBlockRegex = /```(\w+)?\n?([\s\S]*?)```/g;
   let lastIndex = 0;
@@ -55,7 +91,7 @@ function parseContentNoCode(content: string): ParsedContent[] {
     if (text) parts.push({ type: 'text', content: text });
   }
 
-  return parts.length > 0 ? parts : [{ type: 'text', content }];
+  return parts;
 }
 
 function getExtension(language: string): string {
@@ -68,7 +104,33 @@ function getExtension(language: string): string {
   return extensions[language.toLowerCase()] || 'txt';
 }
 
-function CodeReference({ filename, language, lineCount }: { filename: string; language: string; lineCount: number }) {
+const actionLabels: Record<FileOperation['type'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  rename: 'Renamed',
+};
+
+function CodeReference({ 
+  filename, 
+  language, 
+  lineCount, 
+  action, 
+  pending,
+  cutOff,
+}: { 
+  filename: string; 
+  language: string; 
+  lineCount: number; 
+  action?: FileOperation['type']; 
+  pending?: boolean;
+  cutOff?: boolean;
+}) {
+  const showLines = action !== 'delete' && action !== 'rename';
+  const status = pending
+    ? 'Writing...'
+    : cutOff ? 'Cut off, not applied' : action ? actionLabels[action] : 'Generated';
+
   return (
     <div className="my-3 p-3 rounded-lg border border-primary/30 bg-primary/5 flex items-center gap-3 group hover:bg-primary/10 transition-colors">
       <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
@@ -77,7 +139,7 @@ function CodeReference({ filename, language, lineCount }: { filename: string; la
       <div className="flex-1 min-w-0">
         <p className="font-medium text-sm truncate">{filename}</p>
         <p className="text-xs text-muted-foreground">
-          {language} • {lineCount} lines • Generated
+          {showLines ? `${language} • ${lineCount} lines • ` : ''}{status}
         </p>
       </div>
       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -90,9 +152,100 @@ function CodeReference({ filename, language, lineCount }: { filename: string; la
   );
 }
 
-export function ChatMessage({ role, content, onViewCode }: ChatMessageProps) {
+// Preview error reports are long and machine-written; show what failed instead
+function FixRequest({ info }: { info: FixRequestInfo }) {
+  return (
+    <div className="p-3 rounded-lg border border-destructive/30 bg-destructive/5">
+      <p className="text-xs font-medium flex items-center gap-1.5 mb-1">
+        <Wand2 className="w-3.5 h-3.5 text-primary" />
+        Fix request · attempt {info.attempt} of {info.maxAttempts}
+        {info.file && <span className="text-muted-foreground font-normal">· {info.file}</span>}
+      </p>
+      <p className="text-xs font-mono text-destructive whitespace-pre-wrap break-words">{info.error}</p>
+    </div>
+  );
+}
+
+function MessageAttachments({ attachments }: { attachments: MessageAttachment[] }) {
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {attachments.map((attachment, index) => {
+        if (attachment.type === 'image' && attachment.preview) {
+          const thumbnail = (
+            <img src={attachment.preview} alt={attachment.name} className="w-full h-full object-cover" />
+          );
+          return (
+            <div
+              key={index}
+              className="w-24 h-24 rounded-lg overflow-hidden border border-border/50 bg-muted/30"
+              title={attachment.name}
+            >
+              {attachment.url ? (
+                <a href={attachment.url} target="_blank" rel="noreferrer">{thumbnail}</a>
+              ) : thumbnail}
+            </div>
+          );
+        }
+
+        const Icon = attachment.type === 'image' ? Image : FileText;
+        const chip = (
+          <>
+            <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+            <span className="text-xs font-medium truncate max-w-40">{attachment.name}</span>
+            {attachment.size !== undefined && (
+              <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+            )}
+          </>
+        );
+        const className = 'flex items-center gap-2 px-3 py-2 rounded-lg border border-border/50 bg-muted/30';
+        return attachment.url ? (
+          <a
+            key={index}
+            href={attachment.url}
+            download={attachment.name}
+            target="_blank"
+            rel="noreferrer"
+            className={cn(className, 'hover:bg-muted/60 transition-colors')}
+          >
+            {chip}
+          </a>
+        ) : (
+          <div key={index} className={className}>{chip}</div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Shown under replies that did not finish normally
+function StatusNote({ status }: { status: MessageStatus }) {
+  if (status === 'aborted') {
+    return (
+      <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+        <CircleStop className="w-3 h-3" />
+        Generation stopped
+      </p>
+    );
+  }
+  if (status === 'error') {
+    return (
+      <p className="text-xs text-destructive flex items-center gap-1.5">
+        <AlertTriangle className="w-3 h-3" />
+        Generation failed; this reply is incomplete
+      </p>
+    );
+  }
+  return null;
+}
+
+export function ChatMessage({ role, content, status, attachments, onViewCode }: ChatMessageProps) {
   const isUser = role === 'user';
-  const parsedContent = useMemo(() => parseContentNoCode(content), [content]);
+  const fixRequest = useMemo(() => (isUser ? parseFixRequest(content) : null), [isUser, content]);
+  // Saved user messages carry attachment text for the model; show chips for it instead
+  const split = useMemo(() => (isUser ? splitAttachmentContext(content) : null), [isUser, content]);
+  const text = split ? split.text : content;
+  const shownAttachments = attachments?.length ? attachments : split?.attachments ?? [];
+  const parsedContent = useMemo(() => parseContentNoCode(text, status), [text, status]);
   const hasCode = parsedContent.some(p => p.type === 'code-reference');
 
   return (
@@ -117,7 +270,10 @@ export function ChatMessage({ role, content, onViewCode }: ChatMessageProps) {
           )}
         </p>
         <div className="text-sm leading-relaxed">
-          {content ? (
+          {shownAttachments.length > 0 && <MessageAttachments attachments={shownAttachments} />}
+          {fixRequest ? (
+            <FixRequest info={fixRequest} />
+          ) : text ? (
             parsedContent.map((part, index) =>
               part.type === 'code-reference' ? (
                 <CodeReference 
@@ -125,17 +281,24 @@ export function ChatMessage({ role, content, onViewCode }: ChatMessageProps) {
                   filename={part.filename || 'code'} 
                   language={part.language || 'code'}
                   lineCount={part.content.split('\n').length}
+                  action={part.action}
+                  pending={part.pending}
+                  cutOff={part.cutOff}
                 />
               ) : (
                 <p key={index} className="whitespace-pre-wrap mb-2 text-foreground/90">{part.content}</p>
               )
             )
-          ) : (
+          ) : !isUser && (
             <div className="flex items-center gap-2">
               <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
               <span className="text-muted-foreground">Generating...</span>
             </div>
           )}
+          {content && status === 'streaming' && (
+            <Loader2 className="w-3.5 h-3.5 animate-spin text-primary" />
+          )}
+          {status && <StatusNote status={status} />}
         </div>
         
         {/* Quick action to view code */}
@@ -0,0 +1,46 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ContextUsage } from '@/lib/contextBuilder';
+import { cn } from '@/lib/utils';
+
+interface ContextUsageIndicatorProps {
+  usage: ContextUsage;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${Math.round(value / 1_000)}k`;
+  return String(value);
+}
+
+export function ContextUsageIndicator({ usage }: ContextUsageIndicatorProps) {
+  const available = usage.contextWindow - usage.reserved;
+  const percent = Math.min(100, Math.round((usage.tokens / available) * 100));
+  const overflowing = usage.tokens > available;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="hidden sm:flex items-center gap-1.5 text-xs text-muted-foreground cursor-default">
+          <div className="w-12 h-1.5 rounded-full bg-secondary overflow-hidden">
+            <div
+              className={cn(
+                'h-full rounded-full transition-all',
+                percent >= 90 ? 'bg-destructive' : percent >= 70 ? 'bg-yellow-500' : 'bg-primary'
+              )}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <span>{percent}%</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-64 text-xs space-y-1">
+        <p>
+          About {formatTokens(usage.tokens)} of {formatTokens(available)} tokens in context
+          ({formatTokens(usage.reserved)} more kept free for the reply).
+        </p>
+        {usage.summarized && <p>Older messages are included as a summary.</p>}
+        {overflowing && <p>Older messages will be summarized when you send the next one.</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
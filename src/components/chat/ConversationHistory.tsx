@@ -18,6 +18,7 @@ import {
   Pencil,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { deleteConversationAttachments } from '@/lib/attachments';
 import { formatDistanceToNow } from 'date-fns';
 import { RenameConversationDialog } from './RenameConversationDialog';
 
@@ -65,6 +66,11 @@ export function ConversationHistory({
 
   const deleteConversation = useMutation({
     mutationFn: async (conversationId: string) => {
+      // Stored attachment files aren't removed with their rows; any left over are
+      // cleaned up by the attachments-cleanup job
+      await deleteConversationAttachments(conversationId)
+        .catch(error => console.error('Failed to delete attachments:', error));
+
       // Delete messages first
       await supabase
         .from('messages')
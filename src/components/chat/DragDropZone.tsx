@@ -2,13 +2,16 @@ import { useState, useRef, useCallback } from 'react';
 import { cn } from '@/lib/utils';
 import { Upload, Image, FileText } from 'lucide-react';
 import { FileAttachment } from './ChatInput';
+import { ImportSource, getDroppedImportSource } from '@/lib/projectImport';
 
 interface DragDropZoneProps {
   children: React.ReactNode;
   onFilesDropped: (attachments: FileAttachment[]) => void;
+  // Folders and ZIP files are imported into the project instead of attached
+  onImportDropped?: (source: ImportSource) => void;
 }
 
-export function DragDropZone({ children, onFilesDropped }: DragDropZoneProps) {
+export function DragDropZone({ children, onFilesDropped, onImportDropped }: DragDropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
   const dragCountRef = useRef(0);
 
@@ -41,6 +44,14 @@ export function DragDropZone({ children, onFilesDropped }: DragDropZoneProps) {
     setIsDragging(false);
     dragCountRef.current = 0;
 
+    if (onImportDropped && e.dataTransfer) {
+      const source = getDroppedImportSource(e.dataTransfer);
+      if (source) {
+        onImportDropped(source);
+        return;
+      }
+    }
+
     const files = e.dataTransfer?.files;
     if (!files || files.length === 0) return;
 
@@ -68,7 +79,7 @@ export function DragDropZone({ children, onFilesDropped }: DragDropZoneProps) {
     });
 
     onFilesDropped(attachments);
-  }, [onFilesDropped]);
+  }, [onFilesDropped, onImportDropped]);
 
   return (
     <div
@@ -98,7 +109,7 @@ export function DragDropZone({ children, onFilesDropped }: DragDropZoneProps) {
             <div>
               <h3 className="text-xl font-semibold text-primary">Drop files here</h3>
               <p className="text-sm text-muted-foreground mt-1">
-                Images, code files, and documents supported
+                Images, code files, and documents supported{onImportDropped && ' · folders and ZIPs are imported'}
               </p>
             </div>
           </div>
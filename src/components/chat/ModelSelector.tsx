@@ -1,4 +1,4 @@
-import { Check, ChevronDown, Zap, Gauge, Crown, Key } from 'lucide-react';
+import { Check, ChevronDown, Zap, Gauge, Crown, Key, Eye } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -38,6 +38,15 @@ function QualityBadge({ quality, isCustom }: { quality: AIModel['quality']; isCu
   return null;
 }
 
+function VisionIcon({ model }: { model: AIModel }) {
+  if (!model.supportsVision) return null;
+  return (
+    <span title="Reads attached images" className="shrink-0">
+      <Eye className="w-3 h-3 text-muted-foreground" />
+    </span>
+  );
+}
+
 function SpeedIcon({ speed, isCustom }: { speed: AIModel['speed']; isCustom?: boolean }) {
   if (isCustom) return <Key className="w-3 h-3 text-green-500" />;
   if (speed === 'fast') return <Zap className="w-3 h-3 text-success" />;
@@ -50,6 +59,11 @@ export function ModelSelector({ value, onChange, disabled }: ModelSelectorProps)
   const selectedModel = getModelById(value);
 
   const customModels = models.filter(m => m.isCustom);
+  // One group per API profile; custom models are described by their profile's name
+  const profileGroups = new Map<string, AIModel[]>();
+  for (const model of customModels) {
+    profileGroups.set(model.profileId, [...(profileGroups.get(model.profileId) ?? []), model]);
+  }
   const googleModels = models.filter(m => m.provider === 'google' && !m.isCustom);
   const openaiModels = models.filter(m => m.provider === 'openai' && !m.isCustom);
 
@@ -69,10 +83,10 @@ export function ModelSelector({ value, onChange, disabled }: ModelSelectorProps)
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-64">
         {/* Custom API Models */}
-        {customModels.length > 0 && (
-          <>
-            <DropdownMenuLabel className="text-xs text-green-500">Your API</DropdownMenuLabel>
-            {customModels.map((model) => (
+        {[...profileGroups].map(([profileId, profileModels]) => (
+          <div key={profileId}>
+            <DropdownMenuLabel className="text-xs text-green-500 truncate">{profileModels[0].description}</DropdownMenuLabel>
+            {profileModels.map((model) => (
               <DropdownMenuItem
                 key={model.id}
                 onClick={() => onChange(model.id)}
@@ -81,17 +95,18 @@ export function ModelSelector({ value, onChange, disabled }: ModelSelectorProps)
                 <SpeedIcon speed={model.speed} isCustom />
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
-                    <span className="font-medium text-sm">{model.name}</span>
+                    <span className="font-medium text-sm truncate">{model.name}</span>
                     <QualityBadge quality={model.quality} isCustom />
+                    <VisionIcon model={model} />
                   </div>
-                  <p className="text-xs text-muted-foreground truncate">{model.description}</p>
+                  <p className="text-xs text-muted-foreground truncate">Your API</p>
                 </div>
                 {value === model.id && <Check className="w-4 h-4 text-green-500" />}
               </DropdownMenuItem>
             ))}
             <DropdownMenuSeparator />
-          </>
-        )}
+          </div>
+        ))}
         
         <DropdownMenuLabel className="text-xs text-muted-foreground">Google Models</DropdownMenuLabel>
         {googleModels.map((model) => (
@@ -105,6 +120,7 @@ export function ModelSelector({ value, onChange, disabled }: ModelSelectorProps)
               <div className="flex items-center gap-2">
                 <span className="font-medium text-sm">{model.name}</span>
                 <QualityBadge quality={model.quality} />
+                <VisionIcon model={model} />
               </div>
               <p className="text-xs text-muted-foreground truncate">{model.description}</p>
             </div>
@@ -124,6 +140,7 @@ export function ModelSelector({ value, onChange, disabled }: ModelSelectorProps)
               <div className="flex items-center gap-2">
                 <span className="font-medium text-sm">{model.name}</span>
                 <QualityBadge quality={model.quality} />
+                <VisionIcon model={model} />
               </div>
               <p className="text-xs text-muted-foreground truncate">{model.description}</p>
             </div>
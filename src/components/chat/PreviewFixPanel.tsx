@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { FixAttempt } from '@/hooks/useChat';
+import { MAX_FIX_ATTEMPTS, PreviewFailure } from '@/lib/previewFix';
+import { AlertTriangle, CheckCircle, Loader2, Wand2, XCircle, Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PreviewFixPanelProps {
+  failure: PreviewFailure | null;
+  attempts: FixAttempt[];
+  autoFix: boolean;
+  onAutoFixChange: (enabled: boolean) => void;
+  onFix: () => void;
+  isLoading: boolean;
+  exhausted: boolean;
+}
+
+const statusLabels: Record<FixAttempt['status'], string> = {
+  pending: 'Asking for a fix...',
+  applied: 'Changes applied, checking preview...',
+  resolved: 'Preview works again',
+  failed: 'Preview still failing',
+};
+
+function StatusIcon({ status }: { status: FixAttempt['status'] }) {
+  if (status === 'pending') return <Loader2 className="w-3.5 h-3.5 animate-spin text-primary" />;
+  if (status === 'applied') return <Clock className="w-3.5 h-3.5 text-primary" />;
+  if (status === 'resolved') return <CheckCircle className="w-3.5 h-3.5 text-green-500" />;
+  return <XCircle className="w-3.5 h-3.5 text-destructive" />;
+}
+
+// Shows the current preview error with a "Fix with AI" action and the log of fix attempts
+export function PreviewFixPanel({
+  failure,
+  attempts,
+  autoFix,
+  onAutoFixChange,
+  onFix,
+  isLoading,
+  exhausted,
+}: PreviewFixPanelProps) {
+  if (!failure && attempts.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-destructive/30 bg-destructive/5 p-3 space-y-2 text-sm">
+      {attempts.length > 0 && (
+        <div className="space-y-1">
+          {attempts.map(attempt => (
+            <div key={attempt.attempt} className="flex items-center gap-2 text-xs">
+              <StatusIcon status={attempt.status} />
+              <span className="font-medium">Attempt {attempt.attempt}/{MAX_FIX_ATTEMPTS}</span>
+              <span className="text-muted-foreground">{statusLabels[attempt.status]}</span>
+              <span className="truncate text-muted-foreground/70 flex-1 text-right" title={attempt.error}>
+                {attempt.file ?? attempt.error}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {failure && (
+        <div className={cn('flex items-start gap-2', attempts.length > 0 && 'pt-2 border-t border-destructive/20')}>
+          <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-destructive">Preview error</p>
+            <p className="text-xs text-muted-foreground font-mono truncate" title={failure.error}>
+              {failure.error}
+            </p>
+            {exhausted && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Auto-fix stopped after {MAX_FIX_ATTEMPTS} attempts.
+              </p>
+            )}
+          </div>
+          <Button size="sm" className="h-7 gap-1.5 shrink-0" onClick={onFix} disabled={isLoading}>
+            <Wand2 className="w-3.5 h-3.5" />
+            {exhausted ? 'Try again' : 'Fix with AI'}
+          </Button>
+        </div>
+      )}
+
+      <label className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+        Fix preview errors automatically
+        <Switch checked={autoFix} onCheckedChange={onAutoFixChange} className="scale-75" />
+      </label>
+    </div>
+  );
+}
@@ -11,11 +11,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { CodeFile } from '@/components/code/CodePreview';
 import { useToast } from '@/hooks/use-toast';
+import { buildProjectFiles } from '@/lib/projectExport';
+import { DEPLOY_CONFIG_KEYS, deployProject } from '@/lib/deploy';
+import { useDeployTokens } from '@/hooks/useDeployTokens';
 import { 
   Loader2, CheckCircle, Copy, ExternalLink, Upload, Globe, 
   RefreshCw, Rocket, ArrowRight, Settings
 } from 'lucide-react';
-import JSZip from 'jszip';
 
 interface QuickDeployDialogProps {
   open: boolean;
@@ -25,9 +27,6 @@ interface QuickDeployDialogProps {
   preferredPlatform?: 'vercel' | 'netlify' | null;
 }
 
-const VERCEL_KEY = 'eternity_vercel_config';
-const NETLIFY_KEY = 'eternity_netlify_config';
-
 export function QuickDeployDialog({ 
   open, 
   onOpenChange, 
@@ -36,8 +35,7 @@ export function QuickDeployDialog({
   preferredPlatform 
 }: QuickDeployDialogProps) {
   const [selectedPlatform, setSelectedPlatform] = useState<'vercel' | 'netlify' | null>(preferredPlatform || null);
-  const [vercelToken, setVercelToken] = useState('');
-  const [netlifyToken, setNetlifyToken] = useState('');
+  const { tokens, saved, setToken, hasToken, saveToken } = useDeployTokens(open);
   const [isDeploying, setIsDeploying] = useState(false);
   const [deploymentUrl, setDeploymentUrl] = useState('');
   const [lastDeployments, setLastDeployments] = useState<{
@@ -47,10 +45,9 @@ export function QuickDeployDialog({
   const { toast } = useToast();
 
   useEffect(() => {
-    const vConfig = localStorage.getItem(VERCEL_KEY);
+    const vConfig = localStorage.getItem(DEPLOY_CONFIG_KEYS.vercel);
     if (vConfig) {
       const parsed = JSON.parse(vConfig);
-      setVercelToken(parsed.token || '');
       if (parsed.lastDeploymentUrl) {
         setLastDeployments(prev => ({ 
           ...prev, 
@@ -58,10 +55,9 @@ export function QuickDeployDialog({
         }));
       }
     }
-    const nConfig = localStorage.getItem(NETLIFY_KEY);
+    const nConfig = localStorage.getItem(DEPLOY_CONFIG_KEYS.netlify);
     if (nConfig) {
       const parsed = JSON.parse(nConfig);
-      setNetlifyToken(parsed.token || '');
       if (parsed.lastDeploymentUrl) {
         setLastDeployments(prev => ({ 
           ...prev, 
@@ -71,41 +67,12 @@ export function QuickDeployDialog({
     }
   }, [open]);
 
-  const generateProjectFiles = () => {
-    const projectFiles: { path: string; content: string }[] = [];
-    const cssFile = files.find(f => f.name.endsWith('.css'));
-    const jsFile = files.find(f => f.name.endsWith('.tsx') || f.name.endsWith('.jsx') || f.name.endsWith('.ts') || f.name.endsWith('.js'));
-    const safeName = projectName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-
-    projectFiles.push({ path: 'package.json', content: JSON.stringify({
-      name: safeName, private: true, version: '0.1.0', type: 'module',
-      scripts: { dev: 'vite', build: 'tsc && vite build', preview: 'vite preview' },
-      dependencies: { react: '^18.3.1', 'react-dom': '^18.3.1', 'lucide-react': '^0.462.0' },
-      devDependencies: { '@types/react': '^18.3.3', '@types/react-dom': '^18.3.0', '@vitejs/plugin-react': '^4.3.1', autoprefixer: '^10.4.19', postcss: '^8.4.38', tailwindcss: '^3.4.4', typescript: '^5.2.2', vite: '^5.3.4' }
-    }, null, 2) });
-    projectFiles.push({ path: 'vite.config.ts', content: `import { defineConfig } from 'vite'\nimport react from '@vitejs/plugin-react'\nexport default defineConfig({ plugins: [react()] })` });
-    projectFiles.push({ path: 'index.html', content: `<!DOCTYPE html>\n<html lang="en">\n<head><meta charset="UTF-8"/><meta name="viewport" content="width=device-width, initial-scale=1.0"/><title>${projectName}</title></head>\n<body><div id="root"></div><script type="module" src="/src/main.tsx"></script></body>\n</html>` });
-    projectFiles.push({ path: 'src/main.tsx', content: `import React from 'react'\nimport ReactDOM from 'react-dom/client'\nimport App from './App'\nimport './index.css'\nReactDOM.createRoot(document.getElementById('root')!).render(<React.StrictMode><App /></React.StrictMode>)` });
-    projectFiles.push({ path: 'src/index.css', content: `@tailwind base;\n@tailwind components;\n@tailwind utilities;\n${cssFile?.content || ''}` });
-    projectFiles.push({ path: 'tailwind.config.js', content: `export default { content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'], theme: { extend: {} }, plugins: [] }` });
-
-    if (jsFile) {
-      let content = jsFile.content;
-      if (!content.includes('import React')) content = `import React, { useState, useEffect } from 'react';\n\n${content}`;
-      if (!content.includes('export default')) content += '\n\nexport default App;';
-      projectFiles.push({ path: 'src/App.tsx', content });
-    } else {
-      projectFiles.push({ path: 'src/App.tsx', content: `import React from 'react';\nfunction App() { return <div className="min-h-screen bg-gray-100 flex items-center justify-center"><h1 className="text-4xl font-bold">${projectName}</h1></div>; }\nexport default App;` });
-    }
-
-    return projectFiles;
-  };
+  const generateProjectFiles = () => buildProjectFiles(files, projectName);
 
   const handleDeploy = async (isUpdate = false) => {
     if (!selectedPlatform) return;
     
-    const token = selectedPlatform === 'vercel' ? vercelToken : netlifyToken;
-    if (!token) {
+    if (!hasToken(selectedPlatform)) {
       toast({ title: 'Token required', variant: 'destructive' });
       return;
     }
@@ -114,55 +81,25 @@ export function QuickDeployDialog({
     setDeploymentUrl('');
 
     try {
+      await saveToken(selectedPlatform);
+
       const projectFiles = generateProjectFiles();
       const safeName = projectName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
 
-      if (selectedPlatform === 'vercel') {
-        const filesPayload = projectFiles.map(f => ({
-          file: f.path,
-          data: btoa(unescape(encodeURIComponent(f.content))),
-          encoding: 'base64'
-        }));
+      const { url, targetId } = await deployProject(
+        selectedPlatform,
+        safeName,
+        projectFiles,
+        isUpdate && selectedPlatform === 'netlify' ? lastDeployments.netlify?.siteId : undefined
+      );
+      setDeploymentUrl(url);
 
-        const response = await fetch('https://api.vercel.com/v13/deployments', {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            name: safeName,
-            files: filesPayload,
-            projectSettings: { buildCommand: 'npm run build', outputDirectory: 'dist', framework: 'vite' }
-          })
-        });
-
-        if (!response.ok) throw new Error((await response.json()).error?.message || 'Vercel deployment failed');
-        const data = await response.json();
-        const url = `https://${data.url}`;
-        setDeploymentUrl(url);
-        localStorage.setItem(VERCEL_KEY, JSON.stringify({ token, projectId: data.projectId, lastDeploymentUrl: url }));
-        setLastDeployments(prev => ({ ...prev, vercel: { url, projectId: data.projectId } }));
+      if (selectedPlatform === 'vercel') {
+        localStorage.setItem(DEPLOY_CONFIG_KEYS.vercel, JSON.stringify({ projectId: targetId, lastDeploymentUrl: url }));
+        setLastDeployments(prev => ({ ...prev, vercel: { url, projectId: targetId } }));
       } else {
-        const zip = new JSZip();
-        projectFiles.forEach(f => zip.file(f.path, f.content));
-        const blob = await zip.generateAsync({ type: 'blob' });
-
-        let endpoint = 'https://api.netlify.com/api/v1/sites';
-        if (isUpdate && lastDeployments.netlify?.siteId) {
-          endpoint = `https://api.netlify.com/api/v1/sites/${lastDeployments.netlify.siteId}/deploys`;
-        }
-
-        const response = await fetch(endpoint, {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/zip' },
-          body: blob
-        });
-
-        if (!response.ok) throw new Error('Netlify deployment failed');
-        const data = await response.json();
-        const url = data.ssl_url || data.url;
-        setDeploymentUrl(url);
-        const siteId = data.site_id || data.id;
-        localStorage.setItem(NETLIFY_KEY, JSON.stringify({ token, siteId, lastDeploymentUrl: url }));
-        setLastDeployments(prev => ({ ...prev, netlify: { url, siteId } }));
+        localStorage.setItem(DEPLOY_CONFIG_KEYS.netlify, JSON.stringify({ siteId: targetId, lastDeploymentUrl: url }));
+        setLastDeployments(prev => ({ ...prev, netlify: { url, siteId: targetId } }));
       }
 
       toast({ 
@@ -280,12 +217,14 @@ export function QuickDeployDialog({
               <Label>{selectedPlatform === 'vercel' ? 'Vercel' : 'Netlify'} API Token</Label>
               <Input
                 type="password"
-                placeholder={`Enter your ${selectedPlatform} token`}
-                value={selectedPlatform === 'vercel' ? vercelToken : netlifyToken}
-                onChange={(e) => selectedPlatform === 'vercel' ? setVercelToken(e.target.value) : setNetlifyToken(e.target.value)}
+                placeholder={saved[selectedPlatform]
+                  ? 'Saved — enter a new token to replace it'
+                  : `Enter your ${selectedPlatform} token`}
+                value={tokens[selectedPlatform]}
+                onChange={(e) => setToken(selectedPlatform, e.target.value)}
               />
               <p className="text-xs text-muted-foreground">
-                Get from{' '}
+                Stored encrypted in your account's vault. Get from{' '}
                 <a 
                   href={selectedPlatform === 'vercel' ? 'https://vercel.com/account/tokens' : 'https://app.netlify.com/user/applications#personal-access-tokens'} 
                   target="_blank" 
@@ -302,7 +241,7 @@ export function QuickDeployDialog({
                   variant="outline"
                   className="flex-1 gap-2"
                   onClick={() => handleDeploy(true)}
-                  disabled={isDeploying || !(selectedPlatform === 'vercel' ? vercelToken : netlifyToken)}
+                  disabled={isDeploying || !hasToken(selectedPlatform)}
                 >
                   {isDeploying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
                   Update Existing
@@ -311,7 +250,7 @@ export function QuickDeployDialog({
               <Button
                 className="flex-1 gap-2"
                 onClick={() => handleDeploy(false)}
-                disabled={isDeploying || !(selectedPlatform === 'vercel' ? vercelToken : netlifyToken)}
+                disabled={isDeploying || !hasToken(selectedPlatform)}
               >
                 {isDeploying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Rocket className="w-4 h-4" />}
                 {canUpdate(selectedPlatform) ? 'New Deployment' : 'Deploy'}
@@ -12,10 +12,12 @@ import {
   ChevronDown,
   ChevronRight,
   FileCode,
+  User,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { extractCodeBlocks } from '@/lib/codeExtractor';
+import { FileOperation, parseFileOperations } from '@/lib/fileOperations';
+import { getLanguageFromPath } from '@/lib/codeExtractor';
 import { CodeFile } from '@/components/code/CodePreview';
 import {
   Collapsible,
@@ -24,78 +26,161 @@ import {
 } from "@/components/ui/collapsible";
 
 interface VersionHistoryProps {
+  projectId?: string;
   conversationId?: string;
-  onRestoreVersion: (files: CodeFile[]) => void;
-  onCompareVersion?: (files: CodeFile[]) => void;
+  // Called with the operations that bring the project back to a version
+  onRestoreVersion: (operations: FileOperation[]) => Promise<void>;
+  onCompareVersion?: (operations: FileOperation[]) => void;
 }
 
 interface CodeVersion {
   id: string;
-  messageId: string;
-  content: string;
+  // Assistant versions come from messages, user versions from edits saved in the editor
+  author: 'assistant' | 'user';
   createdAt: string;
-  files: CodeFile[];
+  operations: FileOperation[];
+  // Writes the files this history knows as of the version and deletes the ones it knows
+  // didn't exist then. Files it never touched, e.g. imported ones, are left as they are.
+  restore: FileOperation[];
 }
 
-export function VersionHistory({ conversationId, onRestoreVersion, onCompareVersion }: VersionHistoryProps) {
+// What the history knows about a path: its file, null when it doesn't exist, and no
+// entry when the path was never touched (its content comes from outside this history)
+type KnownFiles = Map<string, CodeFile | null>;
+
+function replay(known: KnownFiles, operations: FileOperation[], introduced: (path: string) => void) {
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'create':
+      case 'update':
+        if (operation.type === 'create' && !known.has(operation.path)) introduced(operation.path);
+        known.set(operation.path, { name: operation.path, language: operation.language, content: operation.content });
+        break;
+      case 'delete':
+        known.set(operation.path, null);
+        break;
+      case 'rename': {
+        const existing = known.get(operation.path);
+        if (existing === null) break;
+        if (existing) {
+          if (!known.has(operation.to)) introduced(operation.to);
+          known.set(operation.to, { ...existing, name: operation.to, language: getLanguageFromPath(operation.to) });
+        } else {
+          // Moving a file the history never saw: the content at its new path is unknown too
+          known.delete(operation.to);
+        }
+        known.set(operation.path, null);
+        break;
+      }
+    }
+  }
+}
+
+const operationLabels: Record<FileOperation['type'], { label: string; className: string }> = {
+  create: { label: 'A', className: 'text-green-500' },
+  update: { label: 'M', className: 'text-amber-500' },
+  delete: { label: 'D', className: 'text-destructive' },
+  rename: { label: 'R', className: 'text-blue-500' },
+};
+
+export function VersionHistory({ projectId, conversationId, onRestoreVersion, onCompareVersion }: VersionHistoryProps) {
   const { toast } = useToast();
   const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
 
-  // Get all assistant messages with code
+  // Assistant messages with code, plus edits the user saved during this conversation or
+  // outside of any conversation
   const { data: versions, isLoading } = useQuery({
-    queryKey: ['versions', conversationId],
+    queryKey: ['versions', projectId, conversationId],
     queryFn: async () => {
-      if (!conversationId) return [];
-      
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .eq('role', 'assistant')
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
+      if (!projectId) return [];
+
+      const userVersions = supabase
+        .from('project_versions')
+        .select('id, operations, created_at')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+      const [messagesResult, userVersionsResult] = await Promise.all([
+        conversationId
+          ? supabase
+            .from('messages')
+            .select('*')
+            .eq('conversation_id', conversationId)
+            .eq('role', 'assistant')
+            .order('created_at', { ascending: true })
+          : { data: [], error: null },
+        conversationId
+          ? userVersions.or(`conversation_id.eq.${conversationId},conversation_id.is.null`)
+          : userVersions.is('conversation_id', null),
+      ]);
       
-      // Extract code from each message
-      const versionsWithCode: CodeVersion[] = [];
+      if (messagesResult.error) throw messagesResult.error;
+      if (userVersionsResult.error) throw userVersionsResult.error;
+
+      const changes: Omit<CodeVersion, 'restore'>[] = [
+        ...messagesResult.data.map(msg => ({
+          id: msg.id,
+          author: 'assistant' as const,
+          createdAt: msg.created_at,
+          operations: parseFileOperations(msg.content, { legacy: msg.legacy_code_blocks, final: msg.status === 'complete' }),
+        })),
+        ...userVersionsResult.data.map(version => ({
+          id: version.id,
+          author: 'user' as const,
+          createdAt: version.created_at,
+          operations: version.operations as unknown as FileOperation[],
+        })),
+      ].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
       
-      data.forEach((msg) => {
-        const files = extractCodeBlocks([{ 
-          id: msg.id, 
-          role: 'assistant', 
-          content: msg.content 
-        }]);
-        
-        if (files.length > 0) {
-          versionsWithCode.push({
-            id: msg.id,
-            messageId: msg.id,
-            content: msg.content,
-            createdAt: msg.created_at,
-            files,
+      // Replay file operations oldest-first, noting which version first created each path
+      const known: KnownFiles = new Map();
+      const createdIn = new Map<string, number>();
+      const states = changes
+        .filter(change => change.operations.length > 0)
+        .map((change, index) => {
+          replay(known, change.operations, path => {
+            if (!createdIn.has(path)) createdIn.set(path, index);
           });
-        }
+          return { change, index, snapshot: new Map(known) };
+        });
+
+      // Files created after a version didn't exist yet when it was made
+      const versionsWithCode: CodeVersion[] = states.map(({ change, index, snapshot }) => {
+        const restore: FileOperation[] = [];
+        snapshot.forEach((file, path) => {
+          restore.push(file
+            ? { type: 'update', path, language: file.language, content: file.content }
+            : { type: 'delete', path });
+        });
+        createdIn.forEach((createdBy, path) => {
+          if (createdBy > index && !snapshot.has(path)) restore.push({ type: 'delete', path });
+        });
+        return { ...change, restore };
       });
-      
-      return versionsWithCode;
+
+      return versionsWithCode.reverse();
     },
-    enabled: !!conversationId,
+    enabled: !!projectId,
   });
 
-  const handleRestore = (version: CodeVersion) => {
-    onRestoreVersion(version.files);
+  const handleRestore = async (version: CodeVersion) => {
+    try {
+      await onRestoreVersion(version.restore);
+    } catch (error) {
+      toast({ title: 'Failed to restore version', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
     toast({
       title: 'Version restored',
-      description: `Restored ${version.files.length} file(s) from ${formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}`,
+      description: `Restored ${version.restore.length} file(s) from ${formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}`,
     });
   };
 
-  if (!conversationId) {
+  if (!projectId) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-8 text-center">
         <History className="w-10 h-10 text-muted-foreground/30 mb-3" />
         <p className="text-sm text-muted-foreground">
-          Start a conversation to see version history
+          Open a project to see version history
         </p>
       </div>
     );
@@ -119,7 +204,7 @@ export function VersionHistory({ conversationId, onRestoreVersion, onCompareVers
           No code versions yet
         </p>
         <p className="text-xs text-muted-foreground/70 mt-1">
-          Generated code will appear here
+          Generated code and saved edits will appear here
         </p>
       </div>
     );
@@ -168,6 +253,12 @@ export function VersionHistory({ conversationId, onRestoreVersion, onCompareVers
                         <span className="text-xs font-medium">
                           Version {versions.length - index}
                         </span>
+                        {version.author === 'user' && (
+                          <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-blue-500/15 text-blue-500 font-medium">
+                            <User className="w-2.5 h-2.5" />
+                            Your edit
+                          </span>
+                        )}
                         {index === 0 && (
                           <span className="text-[10px] px-1.5 py-0.5 rounded bg-primary/20 text-primary font-medium">
                             Latest
@@ -179,7 +270,7 @@ export function VersionHistory({ conversationId, onRestoreVersion, onCompareVers
                         {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
                         <span>•</span>
                         <FileCode className="w-3 h-3" />
-                        {version.files.length} file{version.files.length !== 1 ? 's' : ''}
+                        {version.operations.length} change{version.operations.length !== 1 ? 's' : ''}
                       </div>
                     </div>
                   </div>
@@ -188,13 +279,17 @@ export function VersionHistory({ conversationId, onRestoreVersion, onCompareVers
                 <CollapsibleContent>
                   <div className="px-2 pb-2 space-y-2">
                     <div className="pl-6 space-y-1">
-                      {version.files.map((file) => (
+                      {version.operations.map((operation, i) => (
                         <div 
-                          key={file.name}
+                          key={`${operation.path}-${i}`}
                           className="text-xs px-2 py-1 rounded bg-muted/50 font-mono flex items-center gap-2"
                         >
-                          <FileCode className="w-3 h-3 text-primary/60" />
-                          {file.name}
+                          <span className={cn('w-3 font-bold', operationLabels[operation.type].className)}>
+                            {operationLabels[operation.type].label}
+                          </span>
+                          <span className={cn('truncate', operation.type === 'delete' && 'line-through text-muted-foreground')}>
+                            {operation.type === 'rename' ? `${operation.path} → ${operation.to}` : operation.path}
+                          </span>
                         </div>
                       ))}
                     </div>
@@ -219,7 +314,7 @@ export function VersionHistory({ conversationId, onRestoreVersion, onCompareVers
                           className="flex-1 h-7 text-xs gap-1.5"
                           onClick={(e) => {
                             e.stopPropagation();
-                            onCompareVersion(version.files);
+                            onCompareVersion(version.restore);
                           }}
                         >
                           <Code className="w-3 h-3" />
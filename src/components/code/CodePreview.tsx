@@ -1,30 +1,58 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import Editor from '@monaco-editor/react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Copy, Check, FileCode, Download, Play, RotateCcw } from 'lucide-react';
+import { Copy, Check, FileCode, Download, Play, RotateCcw, Save, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { basename, getDisplayNames } from '@/lib/paths';
+import { cn } from '@/lib/utils';
 
 export interface CodeFile {
+  // Path relative to the project root, e.g. "src/components/Button.tsx"
   name: string;
   language: string;
   content: string;
 }
 
+// Unsaved editor content; `base` is the file's content when editing started
+export interface FileDraft {
+  content: string;
+  base: string;
+}
+
 interface CodePreviewProps {
   files: CodeFile[];
+  // Unsaved edits by path, owned by the caller so they outlive this component
+  drafts: Map<string, FileDraft>;
+  onDraftChange: (path: string, content: string) => void;
+  onDiscardDrafts: (paths: string[]) => void;
+  // Paths whose file changed since their draft was started
+  changedSinceEdit?: Set<string>;
+  onSave?: () => void;
+  isSaving?: boolean;
   onRunCode?: (files: CodeFile[]) => void;
   activeFile?: string;
   onFileSelect?: (fileName: string) => void;
 }
 
-export function CodePreview({ files, onRunCode, activeFile: externalActiveFile, onFileSelect }: CodePreviewProps) {
+export function CodePreview({
+  files,
+  drafts,
+  onDraftChange,
+  onDiscardDrafts,
+  changedSinceEdit,
+  onSave,
+  isSaving,
+  onRunCode,
+  activeFile: externalActiveFile,
+  onFileSelect,
+}: CodePreviewProps) {
   const [internalActiveFile, setInternalActiveFile] = useState(files[0]?.name || '');
-  const [editedFiles, setEditedFiles] = useState<Map<string, string>>(new Map());
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
 
   const activeFile = externalActiveFile || internalActiveFile;
+  const displayNames = useMemo(() => getDisplayNames(files.map(f => f.name)), [files]);
 
   const handleFileChange = (fileName: string) => {
     setInternalActiveFile(fileName);
@@ -39,41 +67,41 @@ export function CodePreview({ files, onRunCode, activeFile: externalActiveFile,
 
   const currentFile = files.find(f => f.name === activeFile);
   const currentContent = currentFile 
-    ? (editedFiles.get(currentFile.name) ?? currentFile.content)
+    ? (drafts.get(currentFile.name)?.content ?? currentFile.content)
     : '';
 
-  const hasEdits = currentFile ? editedFiles.has(currentFile.name) : false;
+  const hasEdits = currentFile ? drafts.has(currentFile.name) : false;
 
   const handleEditorChange = useCallback((value: string | undefined) => {
     if (!currentFile || value === undefined) return;
-    
-    if (value === currentFile.content) {
-      setEditedFiles(prev => {
-        const next = new Map(prev);
-        next.delete(currentFile.name);
-        return next;
-      });
-    } else {
-      setEditedFiles(prev => new Map(prev).set(currentFile.name, value));
-    }
-  }, [currentFile]);
+    onDraftChange(currentFile.name, value);
+  }, [currentFile, onDraftChange]);
 
   const handleReset = () => {
     if (!currentFile) return;
-    setEditedFiles(prev => {
-      const next = new Map(prev);
-      next.delete(currentFile.name);
-      return next;
-    });
+    onDiscardDrafts([currentFile.name]);
     toast({ title: 'Code reset to original' });
   };
 
+  // Ctrl+S / Cmd+S saves every unsaved file, whether or not the editor has focus
+  useEffect(() => {
+    if (!onSave) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && !e.shiftKey && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        onSave();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onSave]);
+
   const handleRun = () => {
     if (!onRunCode) return;
     
     const updatedFiles = files.map(f => ({
       ...f,
-      content: editedFiles.get(f.name) ?? f.content,
+      content: drafts.get(f.name)?.content ?? f.content,
     }));
     onRunCode(updatedFiles);
     toast({ title: 'Running preview...' });
@@ -92,7 +120,7 @@ export function CodePreview({ files, onRunCode, activeFile: externalActiveFile,
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = currentFile.name;
+    a.download = basename(currentFile.name);
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -120,11 +148,20 @@ export function CodePreview({ files, onRunCode, activeFile: externalActiveFile,
               <TabsTrigger
                 key={file.name}
                 value={file.name}
+                title={file.name}
                 className="h-7 text-xs text-zinc-400 data-[state=active]:bg-zinc-800 data-[state=active]:text-zinc-100"
               >
-                {file.name}
-                {editedFiles.has(file.name) && (
-                  <span className="ml-1 w-1.5 h-1.5 rounded-full bg-primary" />
+                {displayNames.get(file.name) ?? file.name}
+                {drafts.has(file.name) && (
+                  <span
+                    className={cn(
+                      'ml-1 w-1.5 h-1.5 rounded-full',
+                      changedSinceEdit?.has(file.name) ? 'bg-amber-500' : 'bg-primary'
+                    )}
+                    title={changedSinceEdit?.has(file.name)
+                      ? 'Unsaved changes; this file was also changed by the assistant'
+                      : 'Unsaved changes'}
+                  />
                 )}
               </TabsTrigger>
             ))}
@@ -158,6 +195,23 @@ export function CodePreview({ files, onRunCode, activeFile: externalActiveFile,
           >
             <Download className="w-3.5 h-3.5" />
           </Button>
+          {onSave && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-zinc-400 hover:text-zinc-100"
+              onClick={onSave}
+              disabled={drafts.size === 0 || isSaving}
+              title="Save all changes as a new version (Ctrl+S)"
+            >
+              {isSaving ? (
+                <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+              ) : (
+                <Save className="w-3.5 h-3.5 mr-1" />
+              )}
+              Save{drafts.size > 0 && ` (${drafts.size})`}
+            </Button>
+          )}
           {onRunCode && (
             <Button 
               size="sm" 
@@ -174,6 +228,7 @@ export function CodePreview({ files, onRunCode, activeFile: externalActiveFile,
         {currentFile && (
           <Editor
             height="100%"
+            path={currentFile.name}
             language={currentFile.language}
             value={currentContent}
             onChange={handleEditorChange}
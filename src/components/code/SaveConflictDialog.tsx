@@ -0,0 +1,54 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+
+interface SaveConflictDialogProps {
+  // Files changed by someone else since the user started editing them
+  paths: string[];
+  onOverwrite: () => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+export function SaveConflictDialog({ paths, onOverwrite, onDiscard, onCancel }: SaveConflictDialogProps) {
+  return (
+    <AlertDialog open={paths.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            Files changed while you were editing
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            The assistant changed {paths.length === 1 ? 'this file' : 'these files'} after you started editing.
+            Overwriting replaces those changes with yours; discarding keeps the assistant's version of these
+            files and leaves your other edits unsaved.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="rounded-lg border bg-muted/30 p-2 font-mono text-xs space-y-0.5">
+          {paths.map(path => (
+            <div key={path} className="truncate">{path}</div>
+          ))}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={onDiscard}>
+            Discard My Changes
+          </Button>
+          <AlertDialogAction onClick={onOverwrite} className="bg-destructive text-destructive-foreground">
+            Overwrite
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
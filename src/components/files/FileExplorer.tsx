@@ -28,8 +28,11 @@ import {
   Trash2,
   Edit,
   File,
+  FolderPlus,
+  Undo2,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isFolderPlaceholder } from '@/lib/fileTreeEdits';
 
 interface FileNode {
   name: string;
@@ -42,10 +45,34 @@ interface FileNode {
 interface FileExplorerProps {
   files: CodeFile[];
   activeFile?: string;
-  onFileSelect: (fileName: string) => void;
+  // Called with the file's full path relative to the project root
+  onFileSelect: (path: string) => void;
   onFileCreate?: (name: string, type: 'file' | 'folder') => void;
   onFileDelete?: (name: string) => void;
   onFileRename?: (oldName: string, newName: string) => void;
+  // Called when a file or folder is dragged onto a folder ('' for the project root)
+  onFileMove?: (path: string, folder: string) => void;
+  onUndo?: () => void;
+  // Describes the edit that undo would revert; undo is disabled without one
+  undoLabel?: string;
+}
+
+// Paths dragged within the explorer, as opposed to files dropped from the desktop
+const DRAG_TYPE = 'application/x-project-path';
+
+type PathDialog =
+  | { mode: 'create'; type: 'file' | 'folder' }
+  | { mode: 'rename'; type: 'file' | 'folder'; path: string };
+
+interface TreeActions {
+  activeFile?: string;
+  onFileSelect: (fileName: string) => void;
+  onDelete?: (path: string) => void;
+  onRequestCreate?: (folder: string, type: 'file' | 'folder') => void;
+  onRequestRename?: (path: string, type: 'file' | 'folder') => void;
+  onMove?: (path: string, folder: string) => void;
+  dropTarget: string | null;
+  setDropTarget: (folder: string | null) => void;
 }
 
 function getFileIcon(fileName: string) {
@@ -79,6 +106,8 @@ function buildFileTree(files: CodeFile[]): FileNode[] {
 
     parts.forEach((part, index) => {
       const isFile = index === parts.length - 1;
+      // Placeholders keep empty folders around but aren't shown
+      if (isFile && isFolderPlaceholder(file.name)) return;
       let node = current.find((n) => n.name === part);
 
       if (!node) {
@@ -112,36 +141,85 @@ function buildFileTree(files: CodeFile[]): FileNode[] {
   return sortNodes(root);
 }
 
+// Drop handlers that move dragged entries into `folder`
+function dropHandlers(folder: string, { onMove, dropTarget, setDropTarget }: TreeActions) {
+  if (!onMove) return {};
+  return {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropTarget !== folder) setDropTarget(folder);
+    },
+    onDrop: (e: React.DragEvent) => {
+      const path = e.dataTransfer.getData(DRAG_TYPE);
+      if (!path) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      onMove(path, folder);
+    },
+  };
+}
+
 function FileTreeItem({
   node,
   path = '',
-  activeFile,
-  onFileSelect,
-  onFileDelete,
-  onFileRename,
+  actions,
 }: {
   node: FileNode;
   path?: string;
-  activeFile?: string;
-  onFileSelect: (fileName: string) => void;
-  onFileDelete?: (name: string) => void;
-  onFileRename?: (oldName: string, newName: string) => void;
+  actions: TreeActions;
 }) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const { activeFile, onFileSelect, onDelete, onRequestCreate, onRequestRename, onMove, dropTarget, setDropTarget } = actions;
   const fullPath = path ? `${path}/${node.name}` : node.name;
-  const isActive = activeFile === fullPath || activeFile === node.name;
+  const isActive = activeFile === fullPath;
+
+  const dragProps = onMove
+    ? {
+        draggable: true,
+        onDragStart: (e: React.DragEvent) => {
+          e.stopPropagation();
+          e.dataTransfer.setData(DRAG_TYPE, fullPath);
+          e.dataTransfer.effectAllowed = 'move';
+        },
+        onDragEnd: () => setDropTarget(null),
+      }
+    : {};
+
+  const commonItems = (
+    <>
+      {onRequestRename && (
+        <ContextMenuItem onClick={() => onRequestRename(fullPath, node.type)}>
+          <Edit className="w-4 h-4 mr-2" />
+          Rename
+        </ContextMenuItem>
+      )}
+      {onDelete && (
+        <ContextMenuItem onClick={() => onDelete(fullPath)}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </ContextMenuItem>
+      )}
+    </>
+  );
 
   if (node.type === 'folder') {
     return (
-      <div>
+      <div {...dropHandlers(fullPath, actions)}>
         <ContextMenu>
           <ContextMenuTrigger>
             <button
               className={cn(
                 'w-full flex items-center gap-1.5 px-2 py-1 text-sm rounded-md transition-colors',
-                'hover:bg-accent text-muted-foreground hover:text-foreground'
+                'hover:bg-accent text-muted-foreground hover:text-foreground',
+                dropTarget === fullPath && 'bg-primary/10 ring-1 ring-primary/40'
               )}
               onClick={() => setIsExpanded(!isExpanded)}
+              title={fullPath}
+              {...dragProps}
             >
               {isExpanded ? (
                 <ChevronDown className="w-3.5 h-3.5" />
@@ -157,10 +235,19 @@ function FileTreeItem({
             </button>
           </ContextMenuTrigger>
           <ContextMenuContent>
-            <ContextMenuItem onClick={() => onFileDelete?.(fullPath)}>
-              <Trash2 className="w-4 h-4 mr-2" />
-              Delete
-            </ContextMenuItem>
+            {onRequestCreate && (
+              <>
+                <ContextMenuItem onClick={() => onRequestCreate(fullPath, 'file')}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  New File
+                </ContextMenuItem>
+                <ContextMenuItem onClick={() => onRequestCreate(fullPath, 'folder')}>
+                  <FolderPlus className="w-4 h-4 mr-2" />
+                  New Folder
+                </ContextMenuItem>
+              </>
+            )}
+            {commonItems}
           </ContextMenuContent>
         </ContextMenu>
         {isExpanded && node.children && (
@@ -170,10 +257,7 @@ function FileTreeItem({
                 key={child.name}
                 node={child}
                 path={fullPath}
-                activeFile={activeFile}
-                onFileSelect={onFileSelect}
-                onFileDelete={onFileDelete}
-                onFileRename={onFileRename}
+                actions={actions}
               />
             ))}
           </div>
@@ -192,7 +276,11 @@ function FileTreeItem({
               ? 'bg-primary/10 text-primary font-medium'
               : 'hover:bg-accent text-muted-foreground hover:text-foreground'
           )}
-          onClick={() => onFileSelect(node.name)}
+          onClick={() => onFileSelect(fullPath)}
+          title={fullPath}
+          {...dragProps}
+          // Dropping onto a file moves into the folder that contains it
+          {...dropHandlers(path, actions)}
         >
           <span className="w-3.5" />
           {getFileIcon(node.name)}
@@ -200,14 +288,7 @@ function FileTreeItem({
         </button>
       </ContextMenuTrigger>
       <ContextMenuContent>
-        <ContextMenuItem onClick={() => onFileRename?.(fullPath, fullPath)}>
-          <Edit className="w-4 h-4 mr-2" />
-          Rename
-        </ContextMenuItem>
-        <ContextMenuItem onClick={() => onFileDelete?.(fullPath)}>
-          <Trash2 className="w-4 h-4 mr-2" />
-          Delete
-        </ContextMenuItem>
+        {commonItems}
       </ContextMenuContent>
     </ContextMenu>
   );
@@ -220,33 +301,90 @@ export function FileExplorer({
   onFileCreate,
   onFileDelete,
   onFileRename,
+  onFileMove,
+  onUndo,
+  undoLabel,
 }: FileExplorerProps) {
-  const [showNewFileDialog, setShowNewFileDialog] = useState(false);
-  const [newFileName, setNewFileName] = useState('');
+  const [pathDialog, setPathDialog] = useState<PathDialog | null>(null);
+  const [pathValue, setPathValue] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
   const fileTree = buildFileTree(files);
 
-  const handleCreateFile = () => {
-    if (newFileName.trim()) {
-      onFileCreate?.(newFileName.trim(), 'file');
-      setNewFileName('');
-      setShowNewFileDialog(false);
+  const openCreateDialog = (folder: string, type: 'file' | 'folder') => {
+    setPathDialog({ mode: 'create', type });
+    setPathValue(folder ? `${folder}/` : '');
+  };
+
+  const openRenameDialog = (path: string, type: 'file' | 'folder') => {
+    setPathDialog({ mode: 'rename', type, path });
+    setPathValue(path);
+  };
+
+  const handleSubmitPath = () => {
+    const value = pathValue.trim();
+    if (!pathDialog || !value) return;
+    if (pathDialog.mode === 'create') {
+      onFileCreate?.(value, pathDialog.type);
+    } else {
+      onFileRename?.(pathDialog.path, value);
     }
+    setPathValue('');
+    setPathDialog(null);
   };
 
+  const actions: TreeActions = {
+    activeFile,
+    onFileSelect,
+    onDelete: onFileDelete,
+    onRequestCreate: onFileCreate ? openCreateDialog : undefined,
+    onRequestRename: onFileRename ? openRenameDialog : undefined,
+    onMove: onFileMove,
+    dropTarget,
+    setDropTarget,
+  };
+
+  const dialogTitle = pathDialog?.mode === 'rename'
+    ? `Rename ${pathDialog.type === 'folder' ? 'Folder' : 'File'}`
+    : `Create New ${pathDialog?.type === 'folder' ? 'Folder' : 'File'}`;
+
   return (
     <div className="h-full flex flex-col bg-sidebar">
       <div className="flex items-center justify-between px-3 py-2 border-b border-sidebar-border">
         <span className="text-xs font-semibold uppercase tracking-wider text-sidebar-foreground/70">
           Files
         </span>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6 text-sidebar-foreground/70 hover:text-sidebar-foreground"
-          onClick={() => setShowNewFileDialog(true)}
-        >
-          <Plus className="w-4 h-4" />
-        </Button>
+        <div className="flex items-center gap-0.5">
+          {onUndo && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-sidebar-foreground/70 hover:text-sidebar-foreground"
+              onClick={onUndo}
+              disabled={!undoLabel}
+              title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-sidebar-foreground/70 hover:text-sidebar-foreground"
+            onClick={() => openCreateDialog('', 'folder')}
+            title="New folder"
+          >
+            <FolderPlus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-sidebar-foreground/70 hover:text-sidebar-foreground"
+            onClick={() => openCreateDialog('', 'file')}
+            title="New file"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
       <ScrollArea className="flex-1 px-2 py-2">
@@ -254,41 +392,51 @@ export function FileExplorer({
           <div className="flex flex-col items-center justify-center h-32 text-center px-4">
             <FileCode className="w-8 h-8 text-sidebar-foreground/30 mb-2" />
             <p className="text-xs text-sidebar-foreground/50">
-              No files yet. Generate code to see files here.
+              No files yet. Generate code or create a file to see files here.
             </p>
           </div>
         ) : (
-          <div className="space-y-0.5">
+          <div
+            className={cn(
+              'space-y-0.5 min-h-full rounded-md pb-8',
+              dropTarget === '' && 'bg-primary/5 ring-1 ring-primary/30'
+            )}
+            // Dropping on empty space moves to the project root
+            {...dropHandlers('', actions)}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+            }}
+          >
             {fileTree.map((node) => (
               <FileTreeItem
                 key={node.name}
                 node={node}
-                activeFile={activeFile}
-                onFileSelect={onFileSelect}
-                onFileDelete={onFileDelete}
-                onFileRename={onFileRename}
+                actions={actions}
               />
             ))}
           </div>
         )}
       </ScrollArea>
 
-      <Dialog open={showNewFileDialog} onOpenChange={setShowNewFileDialog}>
+      <Dialog open={!!pathDialog} onOpenChange={(open) => !open && setPathDialog(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Create New File</DialogTitle>
+            <DialogTitle>{dialogTitle}</DialogTitle>
           </DialogHeader>
           <Input
-            placeholder="Enter file name (e.g., App.tsx)"
-            value={newFileName}
-            onChange={(e) => setNewFileName(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleCreateFile()}
+            autoFocus
+            placeholder={pathDialog?.type === 'folder' ? 'Enter folder path (e.g., src/hooks)' : 'Enter file path (e.g., src/App.tsx)'}
+            value={pathValue}
+            onChange={(e) => setPathValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmitPath()}
           />
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowNewFileDialog(false)}>
+            <Button variant="outline" onClick={() => setPathDialog(null)}>
               Cancel
             </Button>
-            <Button onClick={handleCreateFile}>Create</Button>
+            <Button onClick={handleSubmitPath}>
+              {pathDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
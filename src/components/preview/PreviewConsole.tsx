@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CodeFile } from '@/components/code/CodePreview';
+import { PreviewLogEntry } from '@/hooks/usePreviewConsole';
+import {
+  Trash2, Search, AlertCircle, AlertTriangle, Info, Bug, Globe, Terminal,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type ConsoleFilter = 'all' | 'error' | 'warn' | 'log' | 'network';
+
+interface PreviewConsoleProps {
+  entries: PreviewLogEntry[];
+  files: CodeFile[];
+  onClear: () => void;
+  onOpenFile?: (path: string) => void;
+}
+
+const FILTERS: { value: ConsoleFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'error', label: 'Errors' },
+  { value: 'warn', label: 'Warnings' },
+  { value: 'log', label: 'Logs' },
+  { value: 'network', label: 'Network' },
+];
+
+const levelStyles: Record<string, string> = {
+  error: 'text-destructive bg-destructive/5',
+  warn: 'text-amber-600 dark:text-amber-400 bg-amber-500/5',
+  info: 'text-blue-600 dark:text-blue-400',
+  debug: 'text-muted-foreground',
+  log: 'text-foreground',
+};
+
+function matchesFilter(entry: PreviewLogEntry, filter: ConsoleFilter) {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'network':
+      return entry.kind === 'network';
+    case 'log':
+      return entry.kind === 'console' && ['log', 'info', 'debug'].includes(entry.level);
+    default:
+      return entry.level === filter;
+  }
+}
+
+function entryText(entry: PreviewLogEntry) {
+  return entry.kind === 'network' ? `${entry.method} ${entry.url}` : entry.message;
+}
+
+function LevelIcon({ entry }: { entry: PreviewLogEntry }) {
+  const className = 'w-3.5 h-3.5 shrink-0 mt-0.5';
+  if (entry.kind === 'network') return <Globe className={className} />;
+  if (entry.level === 'error') return <AlertCircle className={className} />;
+  if (entry.level === 'warn') return <AlertTriangle className={className} />;
+  if (entry.level === 'debug') return <Bug className={className} />;
+  return <Info className={cn(className, entry.level === 'log' && 'opacity-40')} />;
+}
+
+// Renders a stack trace with frames that point into the project linked to their file
+function StackTrace({ stack, paths, onOpenFile }: {
+  stack: string;
+  paths: string[];
+  onOpenFile?: (path: string) => void;
+}) {
+  return (
+    <pre className="mt-1 text-[11px] leading-relaxed text-muted-foreground whitespace-pre-wrap break-all">
+      {stack.split('\n').map((frame, i) => {
+        const path = paths.find(p => frame.includes(`${p}:`));
+        if (!path) return <div key={i}>{frame}</div>;
+
+        const start = frame.indexOf(`${path}:`);
+        const location = frame.slice(start).match(/^[^\s)]+/)?.[0] ?? path;
+        return (
+          <div key={i}>
+            {frame.slice(0, start)}
+            <button
+              className="underline decoration-dotted hover:text-primary"
+              onClick={() => onOpenFile?.(path)}
+            >
+              {location}
+            </button>
+            {frame.slice(start + location.length)}
+          </div>
+        );
+      })}
+    </pre>
+  );
+}
+
+export function PreviewConsole({ entries, files, onClear, onOpenFile }: PreviewConsoleProps) {
+  const [filter, setFilter] = useState<ConsoleFilter>('all');
+  const [query, setQuery] = useState('');
+
+  // Longest first so "src/components/App.tsx" wins over "App.tsx"
+  const paths = useMemo(
+    () => files.map(f => f.name).sort((a, b) => b.length - a.length),
+    [files]
+  );
+
+  const visible = entries.filter(entry =>
+    matchesFilter(entry, filter) && entryText(entry).toLowerCase().includes(query.toLowerCase())
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-background">
+      <div className="flex items-center gap-1 px-2 py-1.5 border-b bg-muted/30">
+        {FILTERS.map(({ value, label }) => (
+          <Button
+            key={value}
+            variant={filter === value ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => setFilter(value)}
+          >
+            {label}
+          </Button>
+        ))}
+        <div className="relative flex-1 ml-2">
+          <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter output"
+            className="h-6 pl-6 text-xs"
+          />
+        </div>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClear} title="Clear console">
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-muted-foreground">
+          <Terminal className="w-8 h-8 mb-2 opacity-50" />
+          <p className="text-sm">{entries.length === 0 ? 'No output yet' : 'No matching output'}</p>
+        </div>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="font-mono text-xs">
+            {visible.map(entry => (
+              <div
+                key={entry.id}
+                className={cn('flex gap-2 px-3 py-1.5 border-b border-border/50', levelStyles[entry.level])}
+              >
+                <LevelIcon entry={entry} />
+                <div className="flex-1 min-w-0">
+                  {entry.kind === 'network' ? (
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{entry.method}</span>
+                      <span className="truncate flex-1" title={entry.url}>{entry.url}</span>
+                      <span className="shrink-0">
+                        {entry.error ?? entry.status ?? 'pending'}
+                        {entry.duration !== undefined && ` · ${entry.duration}ms`}
+                      </span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="whitespace-pre-wrap break-words">{entry.message}</div>
+                      {entry.stack && <StackTrace stack={entry.stack} paths={paths} onOpenFile={onOpenFile} />}
+                    </>
+                  )}
+                </div>
+                <span className="shrink-0 text-[10px] text-muted-foreground">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CodeFile } from '@/components/code/CodePreview';
+import {
+  ImportResult,
+  ImportSource,
+  MAX_IMPORT_FILES,
+  SkipReason,
+  getDroppedImportSource,
+  readImportSource,
+} from '@/lib/projectImport';
+import { cn } from '@/lib/utils';
+import { FileArchive, FileCode, FolderOpen, Loader2, Upload } from 'lucide-react';
+
+interface ImportProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // A ZIP or folder dropped somewhere else, read as soon as the dialog opens
+  source?: ImportSource | null;
+  // Asks for a project name when importing into a new project
+  createsProject?: boolean;
+  // Files already in the project; offers to replace them instead of merging
+  existingFileCount?: number;
+  onImport: (data: { name: string; files: CodeFile[]; replace: boolean }) => Promise<void>;
+}
+
+const skipLabels: Record<SkipReason, string> = {
+  ignored: 'ignored',
+  binary: 'binary',
+  'too large': 'too large',
+  limit: `over the ${MAX_IMPORT_FILES}-file limit`,
+};
+
+function describeSkipped(skipped: ImportResult['skipped']): string {
+  const counts = new Map<SkipReason, number>();
+  skipped.forEach(({ reason }) => counts.set(reason, (counts.get(reason) ?? 0) + 1));
+  return [...counts.entries()].map(([reason, count]) => `${count} ${skipLabels[reason]}`).join(', ');
+}
+
+export function ImportProjectDialog({
+  open,
+  onOpenChange,
+  source,
+  createsProject = false,
+  existingFileCount = 0,
+  onImport,
+}: ImportProjectDialogProps) {
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [name, setName] = useState('');
+  const [replace, setReplace] = useState(false);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const read = useCallback(async (next: ImportSource) => {
+    setIsReading(true);
+    setError(null);
+    setResult(null);
+    try {
+      const imported = await readImportSource(next);
+      setResult(imported);
+      setName(imported.name);
+      if (imported.files.length === 0) setError('No source files were found to import.');
+    } catch (e) {
+      setError((e as Error).message || 'Failed to read the files');
+    } finally {
+      setIsReading(false);
+    }
+  }, []);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setResult(null);
+    setError(null);
+    setReplace(false);
+  }, [open]);
+
+  useEffect(() => {
+    if (open && source) read(source);
+  }, [open, source, read]);
+
+  // React doesn't know the non-standard attribute that turns a file input into a folder picker
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  });
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const dropped = getDroppedImportSource(e.dataTransfer);
+    if (dropped) {
+      read(dropped);
+    } else {
+      setError('Drop a ZIP file or a folder.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result || result.files.length === 0) return;
+    setIsImporting(true);
+    try {
+      await onImport({ name: name.trim() || result.name, files: result.files, replace });
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; the dialog stays open to try again
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-primary" />
+            Import Code
+          </DialogTitle>
+          <DialogDescription>
+            Bring in an existing app from a ZIP file or a folder. Dependencies, build output and binary files are
+            left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            className={cn(
+              'rounded-lg border-2 border-dashed p-6 text-center transition-colors',
+              isDragging ? 'border-primary bg-primary/10' : 'border-border bg-muted/30'
+            )}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            {isReading ? (
+              <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading files...
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">Drop a ZIP file or folder here, or</p>
+                <div className="flex items-center justify-center gap-2">
+                  <Button variant="outline" size="sm" className="gap-1.5" onClick={() => zipInputRef.current?.click()}>
+                    <FileArchive className="w-4 h-4" />
+                    Choose ZIP
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-1.5" onClick={() => folderInputRef.current?.click()}>
+                    <FolderOpen className="w-4 h-4" />
+                    Choose Folder
+                  </Button>
+                </div>
+              </div>
+            )}
+            <input
+              ref={zipInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) read({ kind: 'zip', file });
+                e.target.value = '';
+              }}
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                if (files.length > 0) read({ kind: 'files', files });
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {result && result.files.length > 0 && (
+            <div className="space-y-3">
+              <div className="text-sm">
+                <span className="font-medium">{result.files.length} files</span> ready to import
+                {result.skipped.length > 0 && (
+                  <span className="text-muted-foreground"> · skipped {describeSkipped(result.skipped)}</span>
+                )}
+              </div>
+              <ScrollArea className="h-40 rounded-lg border bg-secondary/30 p-2">
+                <div className="font-mono text-xs space-y-0.5">
+                  {result.files.map(file => (
+                    <div key={file.name} className="flex items-center gap-2 px-1 py-0.5">
+                      <FileCode className="w-3 h-3 text-muted-foreground shrink-0" />
+                      <span className="truncate">{file.name}</span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              {createsProject && (
+                <div className="grid gap-2">
+                  <Label htmlFor="import-name">Project Name</Label>
+                  <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+              )}
+
+              {!createsProject && existingFileCount > 0 && (
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="import-replace"
+                    checked={replace}
+                    onCheckedChange={(checked) => setReplace(checked === true)}
+                  />
+                  <Label htmlFor="import-replace" className="text-sm font-normal leading-snug">
+                    Replace the project's {existingFileCount} current files. Otherwise imported files are added,
+                    overwriting files at the same path.
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!result || result.files.length === 0 || isImporting || (createsProject && !name.trim())}
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,15 +2,21 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ProjectCard } from './ProjectCard';
 import { CreateProjectDialog } from './CreateProjectDialog';
+import { ImportProjectDialog } from './ImportProjectDialog';
 import { Button } from '@/components/ui/button';
 import { useProjects, Project } from '@/hooks/useProjects';
-import { Plus, FolderOpen } from 'lucide-react';
+import { upsertProjectFiles } from '@/hooks/useProjectFiles';
+import { useToast } from '@/hooks/use-toast';
+import { CodeFile } from '@/components/code/CodePreview';
+import { Plus, FolderOpen, Upload } from 'lucide-react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 
 export function ProjectList() {
   const navigate = useNavigate();
   const { projects, isLoading, createProject, deleteProject } = useProjects();
+  const { toast } = useToast();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
 
   const handleOpenProject = (project: Project) => {
@@ -22,6 +28,17 @@ export function ProjectList() {
     navigate(`/chat/${project.id}`);
   };
 
+  const handleImportProject = async ({ name, files }: { name: string; files: CodeFile[] }) => {
+    const project = await createProject.mutateAsync({ name });
+    try {
+      await upsertProjectFiles(project.id, files);
+    } catch (error) {
+      toast({ title: 'Failed to import files', description: (error as Error).message, variant: 'destructive' });
+      throw error;
+    }
+    navigate(`/chat/${project.id}`);
+  };
+
   const handleDeleteProject = async () => {
     if (projectToDelete) {
       await deleteProject.mutateAsync(projectToDelete.id);
@@ -46,10 +63,16 @@ export function ProjectList() {
           <h2 className="text-2xl font-bold">Your Projects</h2>
           <p className="text-muted-foreground">Manage your app projects</p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          New Project
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Project
+          </Button>
+        </div>
       </div>
 
       {projects.length === 0 ? (
@@ -59,12 +82,18 @@ export function ProjectList() {
           </div>
           <h3 className="text-lg font-medium mb-2">No projects yet</h3>
           <p className="text-muted-foreground mb-4 max-w-sm">
-            Create your first project to start building with AI
+            Create your first project to start building with AI, or import an existing codebase
           </p>
-          <Button onClick={() => setShowCreateDialog(true)}>
-            <Plus className="w-4 h-4 mr-2" />
-            Create Project
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Code
+            </Button>
+            <Button onClick={() => setShowCreateDialog(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create Project
+            </Button>
+          </div>
         </div>
       ) : (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -90,6 +119,13 @@ export function ProjectList() {
         isLoading={createProject.isPending}
       />
 
+      <ImportProjectDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        createsProject
+        onImport={handleImportProject}
+      />
+
       <AlertDialog open={!!projectToDelete} onOpenChange={(open) => !open && setProjectToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,322 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ApiProfile, profileEndpoint } from '@/lib/customApiStorage';
+import { invokeFunction } from '@/lib/edgeFunctions';
+import { SecretEndpoint, apiProfileSecretName, setSecret } from '@/lib/secrets';
+import { PROVIDER_LIST, ProviderId, ProviderModel, getProvider } from '@shared/providers/index.ts';
+import { Key, Loader2, Plus, RefreshCw, X } from 'lucide-react';
+
+interface ApiProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null when adding a new profile
+  profile: ApiProfile | null;
+  // apiKey is set when the user entered a new key; the caller stores it in the vault
+  onSave: (profile: ApiProfile, apiKey?: string) => Promise<void>;
+}
+
+function emptyProfile(): ApiProfile {
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    provider: 'openai',
+    hasApiKey: false,
+    baseUrl: '',
+    models: [],
+    enabled: true,
+  };
+}
+
+export function ApiProfileDialog({ open, onOpenChange, profile, onSave }: ApiProfileDialogProps) {
+  const [draft, setDraft] = useState<ApiProfile>(emptyProfile);
+  // A newly typed key; empty keeps whatever the vault already holds
+  const [apiKey, setApiKey] = useState('');
+  // Where the vaulted key may be sent; changing the provider or URL needs the key again
+  const [keyEndpoint, setKeyEndpoint] = useState<SecretEndpoint | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [modelInput, setModelInput] = useState('');
+  const [availableModels, setAvailableModels] = useState<ProviderModel[] | null>(null);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const { toast } = useToast();
+  const provider = getProvider(draft.provider) ?? PROVIDER_LIST[0];
+  const draftEndpoint = profileEndpoint({ ...draft, baseUrl: draft.baseUrl?.trim() || undefined });
+  const endpointChanged = !!keyEndpoint && (
+    keyEndpoint.provider !== draftEndpoint.provider || (keyEndpoint.baseUrl ?? '') !== (draftEndpoint.baseUrl ?? '')
+  );
+
+  const askForKeyAgain = () => {
+    toast({
+      title: 'Enter the API key again',
+      description: 'A saved key is only sent to the provider and URL it was saved with.',
+      variant: 'destructive',
+    });
+  };
+
+  useEffect(() => {
+    if (open) {
+      setDraft(profile ?? emptyProfile());
+      setApiKey('');
+      setKeyEndpoint(profile?.hasApiKey ? profileEndpoint(profile) : null);
+      setModelInput('');
+      setAvailableModels(null);
+    }
+  }, [open, profile]);
+
+  const addModel = (model: string) => {
+    const id = model.trim();
+    if (!id || draft.models.includes(id)) return;
+    setDraft(prev => ({ ...prev, models: [...prev.models, id] }));
+    setModelInput('');
+  };
+
+  const removeModel = (model: string) => {
+    setDraft(prev => ({ ...prev, models: prev.models.filter(m => m !== model) }));
+  };
+
+  // Asks the provider which models this key can use, through the chat function.
+  // A newly typed key is stored first so the function can find it.
+  const handleLoadModels = async () => {
+    if (endpointChanged && !apiKey.trim()) {
+      askForKeyAgain();
+      return;
+    }
+    setIsLoadingModels(true);
+    try {
+      if (apiKey.trim()) {
+        await setSecret(apiProfileSecretName(draft.id), apiKey.trim(), draftEndpoint);
+        setDraft(prev => ({ ...prev, hasApiKey: true }));
+        setKeyEndpoint(draftEndpoint);
+        setApiKey('');
+      }
+      const data = await invokeFunction<{ models: ProviderModel[] }>('chat', {
+        action: 'models',
+        customApi: { provider: draft.provider, profileId: draft.id, baseUrl: draft.baseUrl },
+      });
+      setAvailableModels(data.models ?? []);
+      toast({ title: `Found ${data.models?.length ?? 0} models` });
+    } catch (error) {
+      toast({
+        title: 'Could not load models',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (provider.requiresApiKey && !draft.hasApiKey && !apiKey.trim()) {
+      toast({
+        title: 'API Key required',
+        description: `${provider.name} needs an API key.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (provider.requiresBaseUrl && !draft.baseUrl) {
+      toast({
+        title: 'Base URL required',
+        description: `${provider.name} needs the URL of your API.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // The vaulted key can't follow the profile to a new endpoint; keyless providers drop it
+    if (endpointChanged && !apiKey.trim() && provider.requiresApiKey) {
+      askForKeyAgain();
+      return;
+    }
+    const hasApiKey = draft.hasApiKey && !(endpointChanged && !apiKey.trim());
+
+    // A model typed but not added yet still counts
+    const pending = modelInput.trim();
+    const models = pending && !draft.models.includes(pending) ? [...draft.models, pending] : draft.models;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        hasApiKey,
+        name: draft.name.trim() || provider.name,
+        baseUrl: draft.baseUrl?.trim() || undefined,
+        models,
+      }, apiKey.trim() || undefined);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Failed to save profile',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Key className="w-4 h-4" />
+            {profile ? 'Edit API Profile' : 'Add API Profile'}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                placeholder={provider.name}
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select
+                value={draft.provider}
+                onValueChange={(value: ProviderId) => {
+                  setDraft(prev => ({ ...prev, provider: value }));
+                  setAvailableModels(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDER_LIST.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{provider.description}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-key">API Key{!provider.requiresApiKey && ' (optional)'}</Label>
+              <Input
+                id="profile-key"
+                type="password"
+                placeholder={
+                  endpointChanged
+                    ? 'Enter the key again for the new endpoint'
+                    : draft.hasApiKey ? 'Saved — enter a new key to replace it' : 'sk-...'
+                }
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Your API key is encrypted in your account's vault and never sent back to the browser.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-url">Base URL{!provider.requiresBaseUrl && ' (optional)'}</Label>
+              <Input
+                id="profile-url"
+                placeholder={provider.defaultBaseUrl || 'https://api.example.com/v1'}
+                value={draft.baseUrl || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Requests are sent from our servers, so the URL must be publicly reachable. Localhost and private network addresses are rejected; expose a local server through a tunnel instead.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="profile-model">Models</Label>
+              {draft.models.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {draft.models.map(model => (
+                    <Badge key={model} variant="secondary" className="gap-1 pr-1">
+                      {model}
+                      <button
+                        type="button"
+                        onClick={() => removeModel(model)}
+                        className="rounded-sm hover:bg-muted-foreground/20"
+                        title={`Remove ${model}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  id="profile-model"
+                  list="api-profile-models"
+                  placeholder={provider.defaultModel}
+                  value={modelInput}
+                  onChange={(e) => setModelInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addModel(modelInput);
+                    }
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => addModel(modelInput)}
+                  disabled={!modelInput.trim()}
+                  title="Add model"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={handleLoadModels}
+                  disabled={isLoadingModels || (provider.requiresApiKey && !draft.hasApiKey && !apiKey.trim())}
+                  title="Load available models"
+                >
+                  {isLoadingModels ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                </Button>
+              </div>
+              <datalist id="api-profile-models">
+                {(availableModels ?? provider.suggestedModels).map(model => (
+                  <option key={model.id} value={model.id}>{model.name}</option>
+                ))}
+              </datalist>
+              <p className="text-xs text-muted-foreground">
+                Each model appears in the model selector. Without any, {provider.defaultModel} is used.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,69 +1,110 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { 
-  CustomApiConfig, 
-  getCustomApiConfig, 
-  setCustomApiConfig, 
-  clearCustomApiConfig 
+import {
+  ApiProfile,
+  deleteApiProfile,
+  exportApiProfiles,
+  getApiProfiles,
+  getProfileModels,
+  importApiProfiles,
+  isProfileUsable,
+  moveApiKeysToVault,
+  profileEndpoint,
+  saveApiProfile,
 } from '@/lib/customApiStorage';
-import { Key, Trash2, Check, ExternalLink } from 'lucide-react';
+import { apiProfileSecretName, deleteSecret, setSecret } from '@/lib/secrets';
+import { getProvider } from '@shared/providers/index.ts';
+import { ApiProfileDialog } from './ApiProfileDialog';
+import { Key, Trash2, Pencil, Plus, Upload, Download } from 'lucide-react';
 
 export function CustomApiSettings() {
-  const [config, setConfig] = useState<CustomApiConfig>({
-    provider: 'openai',
-    apiKey: '',
-    baseUrl: '',
-    modelId: '',
-    enabled: false,
-  });
-  const [saved, setSaved] = useState(false);
+  const [profiles, setProfiles] = useState<ApiProfile[]>(() => getApiProfiles());
+  const [editing, setEditing] = useState<ApiProfile | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  const refresh = () => setProfiles(getApiProfiles());
+
+  // Keys saved before the vault existed are uploaded once and removed from localStorage
   useEffect(() => {
-    const stored = getCustomApiConfig();
-    if (stored) {
-      setConfig(stored);
-    }
+    moveApiKeysToVault()
+      .then(() => setProfiles(getApiProfiles()))
+      .catch((error) => console.error('Failed to move API keys to the vault:', error));
   }, []);
 
-  const handleSave = () => {
-    if (config.enabled && !config.apiKey) {
+  const openEditor = (profile: ApiProfile | null) => {
+    setEditing(profile);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (profile: ApiProfile, apiKey?: string) => {
+    if (apiKey) {
+      await setSecret(apiProfileSecretName(profile.id), apiKey, profileEndpoint(profile));
+    } else if (!profile.hasApiKey && profiles.find(p => p.id === profile.id)?.hasApiKey) {
+      // Moved to a keyless endpoint; the old key must not be sent there
+      await deleteSecret(apiProfileSecretName(profile.id));
+    }
+    saveApiProfile({ ...profile, hasApiKey: profile.hasApiKey || !!apiKey });
+    refresh();
+    toast({ title: 'Profile saved', description: `${profile.name} models are available in the model selector.` });
+  };
+
+  const handleToggle = (profile: ApiProfile, enabled: boolean) => {
+    saveApiProfile({ ...profile, enabled });
+    refresh();
+  };
+
+  const handleDelete = async (profile: ApiProfile) => {
+    try {
+      if (profile.hasApiKey) {
+        await deleteSecret(apiProfileSecretName(profile.id));
+      }
+      deleteApiProfile(profile.id);
+      refresh();
+      toast({ title: 'Profile deleted', description: profile.name });
+    } catch (error) {
       toast({
-        title: 'API Key required',
-        description: 'Please enter your API key to enable custom API.',
+        title: 'Failed to delete profile',
+        description: (error as Error).message,
         variant: 'destructive',
       });
-      return;
     }
+  };
 
-    setCustomApiConfig(config);
-    setSaved(true);
-    setTimeout(() => setSaved(false), 2000);
-    
-    toast({
-      title: 'Settings saved',
-      description: config.enabled 
-        ? 'Your custom API will be used for all generations.' 
-        : 'Using built-in Eternity Code AI.',
-    });
+  const handleExport = () => {
+    const blob = new Blob([exportApiProfiles(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'eternity-api-profiles.json';
+    a.click();
+    URL.revokeObjectURL(url);
+    toast({ title: 'Profiles exported', description: 'API keys are not included in the file.' });
   };
 
-  const handleClear = () => {
-    clearCustomApiConfig();
-    setConfig({
-      provider: 'openai',
-      apiKey: '',
-      baseUrl: '',
-      modelId: '',
-      enabled: false,
-    });
-    toast({ title: 'Custom API settings cleared' });
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = importApiProfiles(await file.text());
+      refresh();
+      toast({
+        title: `Imported ${count} profile${count === 1 ? '' : 's'}`,
+        description: 'Add API keys to new profiles before enabling them.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
   };
 
   return (
@@ -71,102 +112,91 @@ export function CustomApiSettings() {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Key className="w-5 h-5 text-primary" />
-          Custom AI API
+          Custom AI APIs
         </CardTitle>
         <CardDescription>
-          Add your own API key to use your preferred AI provider for code generation.
+          Save API profiles for your preferred AI providers. Models from enabled profiles appear in the model selector.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
-          <div>
-            <p className="font-medium">Use Custom API</p>
-            <p className="text-xs text-muted-foreground">
-              When enabled, your API key will be used instead of Eternity Code AI
-            </p>
-          </div>
-          <Switch
-            checked={config.enabled}
-            onCheckedChange={(enabled) => setConfig(prev => ({ ...prev, enabled }))}
-          />
-        </div>
-
-        {config.enabled && (
-          <>
-            <div className="space-y-2">
-              <Label>Provider</Label>
-              <Select
-                value={config.provider}
-                onValueChange={(provider: 'openai' | 'anthropic' | 'google' | 'custom') => 
-                  setConfig(prev => ({ ...prev, provider }))
-                }
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select provider" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="openai">OpenAI</SelectItem>
-                  <SelectItem value="anthropic">Anthropic</SelectItem>
-                  <SelectItem value="google">Google AI</SelectItem>
-                  <SelectItem value="custom">Custom (OpenAI-compatible)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label>API Key</Label>
-              <Input
-                type="password"
-                placeholder="sk-..."
-                value={config.apiKey}
-                onChange={(e) => setConfig(prev => ({ ...prev, apiKey: e.target.value }))}
-              />
-              <p className="text-xs text-muted-foreground">
-                Your API key is stored locally and never sent to our servers.
-              </p>
-            </div>
-
-            {config.provider === 'custom' && (
-              <>
-                <div className="space-y-2">
-                  <Label>Base URL</Label>
-                  <Input
-                    placeholder="https://api.example.com/v1"
-                    value={config.baseUrl || ''}
-                    onChange={(e) => setConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Model ID</Label>
-                  <Input
-                    placeholder="gpt-4o, claude-3-opus, etc."
-                    value={config.modelId || ''}
-                    onChange={(e) => setConfig(prev => ({ ...prev, modelId: e.target.value }))}
+        {profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No API profiles yet. Built-in Eternity Code AI models are used.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {profiles.map(profile => {
+              const provider = getProvider(profile.provider);
+              const incomplete = profile.enabled && !isProfileUsable(profile);
+              return (
+                <div key={profile.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+                  <Switch
+                    checked={profile.enabled}
+                    onCheckedChange={(enabled) => handleToggle(profile, enabled)}
                   />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{profile.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {provider?.name ?? profile.provider} · {getProfileModels(profile).join(', ')}
+                    </p>
+                    {incomplete && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">
+                        Missing API key or base URL
+                      </p>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => openEditor(profile)} title="Edit profile">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(profile)} title="Delete profile">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
                 </div>
-              </>
-            )}
+              );
+            })}
+          </div>
+        )}
 
-            <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
-              <p className="text-xs text-amber-600 dark:text-amber-400">
-                ⚠️ Using your own API key means you'll be billed directly by your provider.
-              </p>
-            </div>
-          </>
+        {profiles.some(p => p.enabled) && (
+          <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              ⚠️ Using your own API key means you'll be billed directly by your provider.
+            </p>
+          </div>
         )}
 
         <div className="flex gap-2 pt-2">
-          <Button onClick={handleSave} className="flex-1 gap-2">
-            {saved ? <Check className="w-4 h-4" /> : null}
-            {saved ? 'Saved!' : 'Save Settings'}
+          <Button onClick={() => openEditor(null)} className="flex-1 gap-2">
+            <Plus className="w-4 h-4" />
+            Add Profile
           </Button>
-          {config.apiKey && (
-            <Button variant="outline" onClick={handleClear}>
-              <Trash2 className="w-4 h-4" />
-            </Button>
-          )}
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} title="Import profiles">
+            <Upload className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={profiles.length === 0}
+            title="Export profiles without API keys"
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
         </div>
       </CardContent>
+
+      <ApiProfileDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        profile={editing}
+        onSave={handleSave}
+      />
     </Card>
   );
 }
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_PACKAGE_URL_TEMPLATE,
+  PackageSourceConfig,
+  getPackageSourceConfig,
+  setPackageSourceConfig,
+  clearPackageSourceConfig,
+} from '@/lib/preview';
+import { Package, RotateCcw, Check } from 'lucide-react';
+
+export function PreviewSettings() {
+  const [config, setConfig] = useState<PackageSourceConfig>(() => getPackageSourceConfig());
+  const [saved, setSaved] = useState(false);
+  const { toast } = useToast();
+
+  const handleSave = () => {
+    if (config.enabled && !config.urlTemplate.includes('{package}')) {
+      toast({
+        title: 'Invalid package source',
+        description: 'The URL template must contain {package}.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setPackageSourceConfig(config);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+
+    toast({
+      title: 'Settings saved',
+      description: config.enabled
+        ? 'npm imports in the preview will load from this source.'
+        : 'npm imports will be reported as unsupported in the preview.',
+    });
+  };
+
+  const handleReset = () => {
+    clearPackageSourceConfig();
+    setConfig({ urlTemplate: DEFAULT_PACKAGE_URL_TEMPLATE, enabled: true });
+    toast({ title: 'Package source reset to default' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="w-5 h-5 text-primary" />
+          Preview Packages
+        </CardTitle>
+        <CardDescription>
+          Where the live preview loads npm packages imported by generated code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+          <div>
+            <p className="font-medium">Load npm packages</p>
+            <p className="text-xs text-muted-foreground">
+              When disabled, only React and the built-in UI components are available
+            </p>
+          </div>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(enabled) => setConfig(prev => ({ ...prev, enabled }))}
+          />
+        </div>
+
+        {config.enabled && (
+          <div className="space-y-2">
+            <Label>Package URL template</Label>
+            <Input
+              placeholder={DEFAULT_PACKAGE_URL_TEMPLATE}
+              value={config.urlTemplate}
+              onChange={(e) => setConfig(prev => ({ ...prev, urlTemplate: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              {'{package}'} is replaced with the import, e.g. framer-motion@11.0.0. Point this at a local mirror to preview offline.
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-2">
+          <Button onClick={handleSave} className="flex-1 gap-2">
+            {saved ? <Check className="w-4 h-4" /> : null}
+            {saved ? 'Saved!' : 'Save Settings'}
+          </Button>
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
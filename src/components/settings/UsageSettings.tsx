@@ -0,0 +1,206 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { useUsage, UsageEvent } from '@/hooks/useUsage';
+import { useProjects } from '@/hooks/useProjects';
+import { BarChart3, Gauge, Loader2, RefreshCw } from 'lucide-react';
+
+const DAYS = 30;
+
+const tokensChartConfig = {
+  prompt: { label: 'Prompt', color: 'hsl(var(--primary))' },
+  completion: { label: 'Completion', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const modelChartConfig = {
+  tokens: { label: 'Tokens', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+function totalTokens(event: UsageEvent): number {
+  return event.prompt_tokens + event.completion_tokens;
+}
+
+// One entry per UTC day in the range, including days without usage
+function tokensPerDay(events: UsageEvent[]) {
+  const days = new Map<string, { day: string; prompt: number; completion: number }>();
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  for (let i = DAYS - 1; i >= 0; i--) {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() - i);
+    const key = date.toISOString().slice(0, 10);
+    days.set(key, { day: key.slice(5), prompt: 0, completion: 0 });
+  }
+  for (const event of events) {
+    const entry = days.get(event.created_at.slice(0, 10));
+    if (!entry) continue;
+    entry.prompt += event.prompt_tokens;
+    entry.completion += event.completion_tokens;
+  }
+  return [...days.values()];
+}
+
+function sumBy(events: UsageEvent[], key: (event: UsageEvent) => string) {
+  const totals = new Map<string, { tokens: number; requests: number }>();
+  for (const event of events) {
+    const entry = totals.get(key(event)) ?? { tokens: 0, requests: 0 };
+    entry.tokens += totalTokens(event);
+    entry.requests += 1;
+    totals.set(key(event), entry);
+  }
+  return [...totals.entries()]
+    .map(([name, total]) => ({ name, ...total }))
+    .sort((a, b) => b.tokens - a.tokens);
+}
+
+function QuotaBar({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {used.toLocaleString()} / {limit === null ? 'Unlimited' : limit.toLocaleString()}
+        </span>
+      </div>
+      <Progress value={limit ? Math.min(100, (used / limit) * 100) : 0} />
+    </div>
+  );
+}
+
+export function UsageSettings() {
+  const { events, isLoading, quota, refetch } = useUsage(DAYS);
+  const { projects } = useProjects();
+
+  const daily = useMemo(() => tokensPerDay(events), [events]);
+  const byModel = useMemo(() => sumBy(events, e => e.model), [events]);
+  const byProject = useMemo(() => {
+    const names = new Map(projects.map(p => [p.id, p.name]));
+    return sumBy(events, e => (e.project_id && names.get(e.project_id)) || 'Other');
+  }, [events, projects]);
+
+  const total = events.reduce((sum, e) => sum + totalTokens(e), 0);
+  const averageLatency = events.length
+    ? Math.round(events.reduce((sum, e) => sum + e.latency_ms, 0) / events.length)
+    : 0;
+  const hasEstimates = events.some(e => e.estimated);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="w-5 h-5 text-primary" />
+              Today
+            </CardTitle>
+            <Button variant="ghost" size="icon" onClick={() => refetch()} title="Refresh">
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+          <CardDescription>
+            Daily limits for the built-in models reset at midnight UTC. Your own API profiles are not limited.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {quota ? (
+            <>
+              <QuotaBar label="Tokens" used={quota.usage.tokens} limit={quota.quota.tokens} />
+              <QuotaBar label="Requests" used={quota.usage.requests} limit={quota.quota.requests} />
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">Quota information is unavailable.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-primary" />
+            Last {DAYS} Days
+          </CardTitle>
+          <CardDescription>
+            {formatTokens(total)} tokens across {events.length} generations
+            {events.length > 0 && `, ${(averageLatency / 1000).toFixed(1)}s average response time`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ChartContainer config={tokensChartConfig} className="h-56 w-full">
+            <BarChart data={daily}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={40} tickFormatter={formatTokens} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="prompt" stackId="tokens" fill="var(--color-prompt)" />
+              <Bar dataKey="completion" stackId="tokens" fill="var(--color-completion)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+
+          {byModel.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">By model</p>
+              <ChartContainer config={modelChartConfig} className="w-full" style={{ height: byModel.length * 36 + 16 }}>
+                <BarChart data={byModel} layout="vertical" margin={{ left: 8 }}>
+                  <XAxis type="number" hide />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={160} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="tokens" fill="var(--color-tokens)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          )}
+
+          {byProject.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">By project</p>
+              <div className="space-y-1">
+                {byProject.map(project => (
+                  <div
+                    key={project.name}
+                    className="flex items-center justify-between p-2 rounded-lg bg-secondary/30 text-sm"
+                  >
+                    <span className="truncate">{project.name}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      {formatTokens(project.tokens)} tokens · {project.requests} requests
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {hasEstimates && (
+            <p className="text-xs text-muted-foreground">
+              Some providers don't report token counts; those generations are estimated from their length.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
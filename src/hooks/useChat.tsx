@@ -1,34 +1,113 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from './use-toast';
-import { DEFAULT_MODEL, isCustomModel } from '@/lib/models';
+import { useAuth } from './useAuth';
+import { DEFAULT_MODEL, getContextWindow, getModelById, isCustomModel } from '@/lib/models';
 import { FileAttachment } from '@/components/chat/ChatInput';
-import { getCustomApiConfig } from '@/lib/customApiStorage';
+import { CustomApiRequest, moveApiKeysToVault, resolveCustomModel } from '@/lib/customApiStorage';
+import { functionAuthHeader, functionUrl, invokeFunction } from '@/lib/edgeFunctions';
+import { FileOperation, parseFileOperations } from '@/lib/fileOperations';
+import { CodeFile } from '@/components/code/CodePreview';
+import { MAX_FIX_ATTEMPTS, PreviewFailure, buildFixRequest } from '@/lib/previewFix';
+import { ContextMessage, ConversationSummary, buildContext } from '@/lib/contextBuilder';
+import { buildProjectSnapshot, snapshotBudget } from '@/lib/projectSnapshot';
+import { MAX_IMAGES_PER_MESSAGE, prepareImage } from '@/lib/imageAttachments';
+import {
+  MessageAttachment,
+  formatFileContext,
+  formatImageContext,
+  loadAttachments,
+  uploadAttachments,
+} from '@/lib/attachments';
+import type { ProviderImage } from '@shared/providers/index.ts';
+
+// streaming: the reply is still being generated (possibly in another tab);
+// aborted/error: generation stopped early and content is partial
+export type MessageStatus = 'streaming' | 'complete' | 'aborted' | 'error';
 
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  attachments?: {
-    name: string;
-    type: 'image' | 'file';
-    preview?: string;
-    content?: string;
-  }[];
+  status?: MessageStatus;
+  attachments?: MessageAttachment[];
+  // Written before the file-operation protocol, so its code blocks are read as files
+  legacyCodeBlocks?: boolean;
 }
 
-export function useChat(conversationId?: string) {
+export interface FixAttempt {
+  attempt: number;
+  error: string;
+  file?: string;
+  // pending: waiting for the reply; applied: changes made, waiting for the preview;
+  // resolved: the preview rendered; failed: no changes, or the preview failed again
+  status: 'pending' | 'applied' | 'resolved' | 'failed';
+}
+
+// Normalized SSE events sent by the chat edge function, whatever the provider
+type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; inputTokens?: number; outputTokens?: number }
+  | { type: 'finish'; reason: 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'error' | 'other' }
+  | { type: 'error'; message: string };
+
+// A reply still marked streaming but not updated for this long lost its generator
+// (the function crashed or timed out) and is shown as failed instead of reattached
+const STALE_GENERATION_MS = 2 * 60 * 1000;
+
+interface UseChatOptions {
+  // Called with the file operations of each assistant reply once it has finished streaming.
+  // messageId is only set when the reply was saved, so it can be referenced by project files.
+  // Saved replies are marked applied once this resolves; if it rejects, they are applied
+  // again the next time the conversation is opened.
+  onFileOperations?: (operations: FileOperation[], messageId?: string) => void | Promise<void>;
+  // The project's current files, sent with every turn so the model edits what is really there
+  files?: CodeFile[];
+  // The file open in the editor, included first after the files a message names
+  activeFile?: string;
+}
+
+export function useChat(conversationId?: string, options: UseChatOptions = {}) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL);
+  const [fixAttempts, setFixAttempts] = useState<FixAttempt[]>([]);
+  // Older turns of a long conversation, folded to fit the model's context window
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Server id of the reply being generated, whether streamed here or followed through realtime
+  const activeMessageIdRef = useRef<string | null>(null);
+  // A reply that was already generating when the conversation was opened
+  const [reattachId, setReattachId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
   const hasLoadedMessages = useRef(false);
+  const onFileOperationsRef = useRef(options.onFileOperations);
+  onFileOperationsRef.current = options.onFileOperations;
+  // Read when a turn starts, so edits made while the previous reply streamed are included
+  const projectRef = useRef({ files: options.files, activeFile: options.activeFile });
+  projectRef.current = { files: options.files, activeFile: options.activeFile };
+
+  // Applies a saved reply's file operations and records that they were, so replies that
+  // finished while no tab had the conversation open can be told apart and applied later
+  const applySavedReply = useCallback(async (messageId: string, operations: FileOperation[]) => {
+    const onFileOperations = onFileOperationsRef.current;
+    if (!onFileOperations) return;
+    try {
+      if (operations.length > 0) await onFileOperations(operations, messageId);
+      const { error } = await supabase.rpc('mark_file_operations_applied', { message_id: messageId });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to apply file operations:', error);
+      toast({ title: 'Failed to apply file changes', description: (error as Error).message, variant: 'destructive' });
+    }
+  }, [toast]);
 
   // Load existing messages when conversation changes
   useEffect(() => {
     if (!conversationId) {
       setMessages([]);
+      setSummary(null);
       hasLoadedMessages.current = false;
       return;
     }
@@ -37,125 +116,240 @@ export function useChat(conversationId?: string) {
     if (hasLoadedMessages.current) return;
 
     const loadMessages = async () => {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
+      const [{ data, error }, { data: conversation }] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('conversations')
+          .select('summary, summary_message_id')
+          .eq('id', conversationId)
+          .maybeSingle(),
+      ]);
 
       if (error) {
         console.error('Failed to load messages:', error);
         return;
       }
 
+      setSummary(conversation?.summary
+        ? { summary: conversation.summary, throughMessageId: conversation.summary_message_id }
+        : null);
+
       if (data && data.length > 0) {
-        const loadedMessages: Message[] = data.map(m => ({
+        const isStale = (updatedAt: string) => Date.now() - new Date(updatedAt).getTime() > STALE_GENERATION_MS;
+        // Replies that failed before producing any text have nothing to show
+        const visible = data.filter(m => m.content || m.status === 'streaming');
+        const loadedMessages: Message[] = visible.map(m => ({
           id: m.id,
           role: m.role as 'user' | 'assistant',
           content: m.content,
+          legacyCodeBlocks: m.legacy_code_blocks,
+          status: (m.status === 'streaming' && isStale(m.updated_at) ? 'error' : m.status) as MessageStatus,
         }));
         setMessages(loadedMessages);
         hasLoadedMessages.current = true;
+
+        // Thumbnails and file chips follow once their URLs are signed
+        loadAttachments(loadedMessages.filter(m => m.role === 'user').map(m => m.id))
+          .then(attachments => {
+            if (attachments.size === 0) return;
+            setMessages(prev => prev.map(m => (attachments.has(m.id) ? { ...m, attachments: attachments.get(m.id) } : m)));
+          })
+          .catch(error => console.error('Failed to load attachments:', error));
+
+        // Pick up a reply that is still being generated, e.g. after a reload mid-stream
+        const last = loadedMessages[loadedMessages.length - 1];
+        if (last?.role === 'assistant' && last.status === 'streaming') {
+          activeMessageIdRef.current = last.id;
+          setIsLoading(true);
+          setReattachId(last.id);
+        }
+
+        // Replies that finished after their tab went away never had their files applied.
+        // Stopped replies are left out, as they are when stopped here.
+        const unapplied = data.filter(m =>
+          m.role === 'assistant' && !m.files_applied_at && (m.status === 'complete' || m.status === 'error')
+        );
+        for (const m of unapplied) {
+          await applySavedReply(m.id, parseFileOperations(m.content, {
+            legacy: m.legacy_code_blocks,
+            final: m.status === 'complete',
+          }));
+        }
       }
     };
 
     loadMessages();
-  }, [conversationId]);
+  }, [conversationId, applySavedReply]);
 
   // Reset loaded flag when conversation changes
   useEffect(() => {
     hasLoadedMessages.current = false;
+    setReattachId(null);
+    setSummary(null);
   }, [conversationId]);
 
-  const sendMessage = useCallback(async (content: string, attachments?: FileAttachment[]) => {
-    if ((!content.trim() && (!attachments || attachments.length === 0)) || isLoading) return;
-
-    // Process attachments
-    let processedAttachments: Message['attachments'] = undefined;
-    let attachmentContext = '';
+  // Follows a reply generating on the server through realtime updates to its row
+  useEffect(() => {
+    if (!reattachId) return;
+    let finished = false;
 
-    if (attachments && attachments.length > 0) {
-      processedAttachments = [];
-      
-      for (const attachment of attachments) {
-        const processed: NonNullable<Message['attachments']>[number] = {
-          name: attachment.file.name,
-          type: attachment.type,
-          preview: attachment.preview,
-        };
+    const apply = (row: { content: string; status: string; files_applied_at: string | null }) => {
+      if (finished) return;
+      const status = row.status as MessageStatus;
+      setMessages(prev => prev.map(m => (m.id === reattachId ? { ...m, content: row.content, status } : m)));
+      if (status === 'streaming') return;
 
-        // Read file content for text files
-        if (attachment.type === 'file') {
-          try {
-            const text = await attachment.file.text();
-            processed.content = text;
-            attachmentContext += `\n\n--- File: ${attachment.file.name} ---\n${text}\n--- End of ${attachment.file.name} ---\n`;
-          } catch (e) {
-            console.error('Failed to read file:', e);
-          }
-        } else if (attachment.type === 'image' && attachment.preview) {
-          attachmentContext += `\n\n[Attached image: ${attachment.file.name}]`;
-        }
-
-        processedAttachments.push(processed);
-      }
-    }
+      finished = true;
+      activeMessageIdRef.current = null;
+      setIsLoading(false);
+      setReattachId(null);
+      // Stopped replies keep their files out; another tab may have applied them already
+      if (status === 'aborted' || row.files_applied_at) return;
+      applySavedReply(reattachId, parseFileOperations(row.content, { final: status === 'complete' }));
+    };
 
-    const fullContent = content + attachmentContext;
+    const channel = supabase
+      .channel(`message-${reattachId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `id=eq.${reattachId}` },
+        (payload) => apply(payload.new as { content: string; status: string; files_applied_at: string | null })
+      )
+      .subscribe(async (state) => {
+        if (state !== 'SUBSCRIBED') return;
+        // Catch up on anything written between loading the history and subscribing
+        const { data } = await supabase
+          .from('messages')
+          .select('content, status, files_applied_at')
+          .eq('id', reattachId)
+          .maybeSingle();
+        if (data) apply(data);
+      });
 
-    const userMessage: Message = {
-      id: crypto.randomUUID(),
-      role: 'user',
-      content,
-      attachments: processedAttachments,
+    return () => {
+      supabase.removeChannel(channel);
     };
-
+  }, [reattachId, applySavedReply]);
+
+  // Streams one assistant reply to `userMessage`. `fullContent` is what the model and the
+  // database see, which may include attachment text not shown in the chat. `images` go
+  // to the model with this turn only; `uploads` are stored with the saved message.
+  // Resolves with the reply's file operations, or null if it failed or was stopped.
+  const runTurn = useCallback(async (
+    userMessage: Message,
+    fullContent: string,
+    { images = [], uploads = [] }: { images?: ProviderImage[]; uploads?: FileAttachment[] } = {}
+  ): Promise<FileOperation[] | null> => {
     setMessages(prev => [...prev, userMessage]);
     setIsLoading(true);
 
     // Save user message to database if we have a conversation
     if (conversationId) {
-      await supabase.from('messages').insert({
+      const { error } = await supabase.from('messages').insert({
+        // Same id as in the chat, so the summary and attachments can refer to it
+        id: userMessage.id,
         conversation_id: conversationId,
         role: 'user',
         content: fullContent, // Save with attachment context
       });
+
+      // Uploading doesn't hold up the reply; the model already has the attachments
+      if (!error && user && uploads.length > 0) {
+        uploadAttachments(user.id, userMessage.id, uploads).catch(uploadError => {
+          console.error('Failed to save attachments:', uploadError);
+          toast({
+            title: 'Attachments not saved',
+            description: 'They were sent, but won\'t show when this conversation is reopened.',
+            variant: 'destructive',
+          });
+        });
+      }
     }
 
     abortControllerRef.current = new AbortController();
     let assistantContent = '';
+    let assistantId: string | null = null;
+    // The chat function saves replies in conversations itself, under an id picked here so
+    // that Stop can name the reply even before the response headers arrive
+    const replyId = conversationId ? crypto.randomUUID() : null;
+    activeMessageIdRef.current = replyId;
+    let savedMessageId: string | null = null;
+    let streamEnded = false;
+    let reattached = false;
+    const setAssistantStatus = (status: MessageStatus) => {
+      setMessages(prev => prev.map(m => (m.id === assistantId ? { ...m, status } : m)));
+    };
 
     try {
-      // Check if using custom API
-      const customApiConfig = getCustomApiConfig();
-      const useCustomApi = isCustomModel(selectedModel) && customApiConfig?.enabled;
-      
-      const requestBody: any = {
-        messages: [...messages, { role: 'user', content: fullContent }].map(m => ({
-          role: m.role,
-          content: m.content,
-        })),
-        model: useCustomApi ? undefined : selectedModel,
-      };
-      
-      // If using custom API, include the config
-      if (useCustomApi && customApiConfig) {
-        requestBody.customApi = {
-          enabled: true,
-          provider: customApiConfig.provider,
-          apiKey: customApiConfig.apiKey,
-          baseUrl: customApiConfig.baseUrl,
-          modelId: customApiConfig.modelId,
-        };
+      // Custom models carry the id of the API profile that serves them
+      let customApi: CustomApiRequest | null = null;
+      if (isCustomModel(selectedModel)) {
+        await moveApiKeysToVault();
+        customApi = resolveCustomModel(selectedModel);
+        if (!customApi) {
+          throw new Error('The API profile for this model is disabled or was removed. Choose another model.');
+        }
       }
-      
+
+      const target = customApi ? { customApi } : { model: selectedModel };
+
+      // Replies that failed before producing any text are left out
+      const history: ContextMessage[] = [
+        ...messages.filter(m => m.content).map(m => ({ id: m.id, role: m.role, content: m.content })),
+        { id: userMessage.id, role: 'user', content: fullContent, ...(images.length > 0 ? { images } : {}) },
+      ];
+      const contextWindow = getContextWindow(selectedModel);
+      const snapshot = buildProjectSnapshot(projectRef.current.files ?? [], {
+        maxTokens: snapshotBudget(contextWindow),
+        request: fullContent,
+        activeFile: projectRef.current.activeFile,
+      }).text;
+      let context = buildContext({
+        messages: history,
+        summary,
+        contextWindow,
+        snapshot,
+        canSummarize: !!conversationId,
+      });
+
+      // Older turns no longer fit: fold them into the conversation's summary first
+      if (context.summarizeThrough) {
+        try {
+          const next = await invokeFunction<ConversationSummary>('chat', {
+            ...target,
+            action: 'summarize',
+            conversationId,
+            throughMessageId: context.summarizeThrough,
+          });
+          setSummary(next);
+          context = buildContext({ messages: history, summary: next, contextWindow, snapshot, canSummarize: false });
+        } catch (error) {
+          // Sending only the recent turns still beats failing the request
+          console.error('Failed to summarize conversation:', error);
+          context = buildContext({ messages: history, summary, contextWindow, snapshot, canSummarize: false });
+        }
+      }
+
+      const requestBody = {
+        ...target,
+        messages: context.messages.map(({ role, content, images }) => ({ role, content, images })),
+        projectSnapshot: snapshot || undefined,
+        summaryMessageId: context.summaryMessageId,
+        conversationId,
+        messageId: replyId ?? undefined,
+      };
+
       const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`,
+        functionUrl('chat'),
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+            Authorization: await functionAuthHeader(),
           },
           body: JSON.stringify(requestBody),
           signal: abortControllerRef.current.signal,
@@ -172,10 +366,12 @@ export function useChat(conversationId?: string) {
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let textBuffer = '';
+      let streamError: string | null = null;
+      let finishReason: string | null = null;
 
-      // Add empty assistant message
-      const assistantId = crypto.randomUUID();
-      setMessages(prev => [...prev, { id: assistantId, role: 'assistant', content: '' }]);
+      savedMessageId = response.headers.get('X-Message-Id');
+      assistantId = savedMessageId ?? crypto.randomUUID();
+      setMessages(prev => [...prev, { id: assistantId, role: 'assistant', content: '', status: 'streaming' }]);
 
       while (true) {
         const { done, value } = await reader.read();
@@ -196,15 +392,18 @@ export function useChat(conversationId?: string) {
           if (jsonStr === '[DONE]') break;
 
           try {
-            const parsed = JSON.parse(jsonStr);
-            const delta = parsed.choices?.[0]?.delta?.content;
-            if (delta) {
-              assistantContent += delta;
+            const event = JSON.parse(jsonStr) as ChatStreamEvent;
+            if (event.type === 'text') {
+              assistantContent += event.text;
               setMessages(prev =>
                 prev.map(m =>
                   m.id === assistantId ? { ...m, content: assistantContent } : m
                 )
               );
+            } else if (event.type === 'error') {
+              streamError = event.message;
+            } else if (event.type === 'finish') {
+              finishReason = event.reason;
             }
           } catch {
             textBuffer = line + '\n' + textBuffer;
@@ -213,36 +412,203 @@ export function useChat(conversationId?: string) {
         }
       }
 
-      // Save assistant message to database
-      if (conversationId && assistantContent) {
-        await supabase.from('messages').insert({
-          conversation_id: conversationId,
-          role: 'assistant',
-          content: assistantContent,
+      streamEnded = true;
+      setAssistantStatus(streamError || finishReason === 'error' ? 'error' : 'complete');
+
+      if (!assistantContent) {
+        setMessages(prev => prev.filter(m => m.id !== assistantId));
+        throw new Error(streamError || 'The model returned an empty reply');
+      }
+
+      // Keep whatever arrived before the provider failed, but say the reply is incomplete
+      const cutOff = !!streamError || finishReason === 'length' || finishReason === 'content_filter';
+      if (cutOff) {
+        toast({
+          title: 'Reply may be incomplete',
+          description: streamError
+            || (finishReason === 'length' ? 'The model hit its output limit.' : 'The provider filtered the reply.'),
+          variant: 'destructive',
         });
       }
+
+      const operations = parseFileOperations(assistantContent, { final: !cutOff && finishReason !== 'error' });
+      if (savedMessageId) {
+        await applySavedReply(savedMessageId, operations);
+      } else if (operations.length > 0) {
+        try {
+          await onFileOperationsRef.current?.(operations);
+        } catch (error) {
+          console.error('Failed to apply file operations:', error);
+          toast({ title: 'Failed to apply file changes', description: (error as Error).message, variant: 'destructive' });
+        }
+      }
+      return operations;
     } catch (error) {
-      if ((error as Error).name === 'AbortError') return;
-      
+      if ((error as Error).name === 'AbortError') {
+        setAssistantStatus('aborted');
+        return null;
+      }
+
+      // The connection dropped mid-stream, but the reply keeps generating on the server
+      if (savedMessageId && !streamEnded) {
+        reattached = true;
+        setReattachId(savedMessageId);
+        return null;
+      }
+
       console.error('Chat error:', error);
       toast({
         title: 'Error',
         description: (error as Error).message || 'Failed to send message',
         variant: 'destructive',
       });
+      return null;
     } finally {
-      setIsLoading(false);
       abortControllerRef.current = null;
+      // A reattached reply stays active until realtime reports it finished
+      if (!reattached) {
+        setIsLoading(false);
+        activeMessageIdRef.current = null;
+      }
+    }
+  }, [messages, summary, conversationId, selectedModel, user, toast, applySavedReply]);
+
+  const sendMessage = useCallback(async (content: string, attachments?: FileAttachment[]) => {
+    if ((!content.trim() && (!attachments || attachments.length === 0)) || isLoading) return;
+
+    // Process attachments
+    let processedAttachments: Message['attachments'] = undefined;
+    let attachmentContext = '';
+    // Images are sent as pictures only to models that can read them
+    const model = getModelById(selectedModel);
+    const images: ProviderImage[] = [];
+    const imageProblems: string[] = [];
+    let unreadImages = 0;
+
+    if (attachments && attachments.length > 0) {
+      processedAttachments = [];
+      
+      for (const attachment of attachments) {
+        const processed: MessageAttachment = {
+          name: attachment.file.name,
+          type: attachment.type,
+          preview: attachment.preview,
+          size: attachment.file.size,
+        };
+
+        // Read file content for text files
+        if (attachment.type === 'file') {
+          try {
+            const text = await attachment.file.text();
+            processed.content = text;
+            attachmentContext += formatFileContext(attachment.file.name, text);
+          } catch (e) {
+            console.error('Failed to read file:', e);
+          }
+        } else if (attachment.type === 'image') {
+          attachmentContext += formatImageContext(attachment.file.name);
+          if (!model?.supportsVision) {
+            unreadImages++;
+          } else if (images.length >= MAX_IMAGES_PER_MESSAGE) {
+            imageProblems.push(`Only ${MAX_IMAGES_PER_MESSAGE} images can be sent at once; ${attachment.file.name} was left out.`);
+          } else {
+            try {
+              const { mediaType, data } = await prepareImage(attachment.file);
+              images.push({ mediaType, data });
+            } catch (e) {
+              imageProblems.push((e as Error).message);
+            }
+          }
+        }
+
+        processedAttachments.push(processed);
+      }
+    }
+
+    if (unreadImages > 0) {
+      toast({
+        title: 'Images sent by name only',
+        description: `${model?.name ?? 'This model'} can't read images. Choose a model marked with an eye to include them.`,
+      });
+    }
+    if (imageProblems.length > 0) {
+      toast({ title: 'Some images were not sent', description: imageProblems.join(' '), variant: 'destructive' });
     }
-  }, [messages, isLoading, conversationId, selectedModel, toast]);
 
+    // A message from the user ends any automatic fix attempts in progress
+    setFixAttempts([]);
+
+    await runTurn(
+      { id: crypto.randomUUID(), role: 'user', content, attachments: processedAttachments },
+      content + attachmentContext,
+      { images, uploads: attachments }
+    );
+  }, [isLoading, selectedModel, runTurn, toast]);
+
+  // Sends a preview failure back to the model. Returns false when a reply is already
+  // streaming or the attempt budget is spent; `fresh` starts a new run of attempts.
+  const requestFix = useCallback(async (
+    failure: PreviewFailure,
+    files: CodeFile[],
+    { fresh = false }: { fresh?: boolean } = {}
+  ) => {
+    if (isLoading) return false;
+
+    const previous = fresh || fixAttempts.some(a => a.status === 'resolved') ? [] : fixAttempts;
+    const attempt = previous.length + 1;
+    if (attempt > MAX_FIX_ATTEMPTS) return false;
+
+    const content = buildFixRequest(failure, files, attempt);
+    setFixAttempts([...previous, { attempt, error: failure.error, file: failure.file, status: 'pending' }]);
+
+    const operations = await runTurn({ id: crypto.randomUUID(), role: 'user', content }, content);
+    const status: FixAttempt['status'] = operations && operations.length > 0 ? 'applied' : 'failed';
+    setFixAttempts(prev => prev.map(a => a.attempt === attempt && a.status === 'pending' ? { ...a, status } : a));
+    return true;
+  }, [isLoading, fixAttempts, runTurn]);
+
+  // Called once the preview has re-rendered with the changes from the latest attempt
+  const reportFixResult = useCallback((ok: boolean) => {
+    setFixAttempts(prev => prev.map(a =>
+      a.status === 'applied' ? { ...a, status: ok ? 'resolved' : 'failed' } : a
+    ));
+  }, []);
+
+  const resetFixAttempts = useCallback(() => setFixAttempts([]), []);
+
+  // Generation continues on the server when the connection drops, so stopping has to tell it to
   const stopGeneration = useCallback(() => {
+    const messageId = activeMessageIdRef.current;
     abortControllerRef.current?.abort();
     setIsLoading(false);
-  }, []);
+
+    if (messageId && conversationId) {
+      invokeFunction('chat', { action: 'abort', conversationId, messageId })
+        .catch(error => console.error('Failed to stop generation:', error));
+    }
+    if (reattachId) {
+      setMessages(prev => prev.map(m => (m.id === reattachId ? { ...m, status: 'aborted' } : m)));
+      setReattachId(null);
+      activeMessageIdRef.current = null;
+    }
+  }, [conversationId, reattachId]);
+
+  // How full the model's context window is, for the chat footer
+  const { files, activeFile } = options;
+  const contextUsage = useMemo(() => {
+    const contextWindow = getContextWindow(selectedModel);
+    return buildContext({
+      messages: messages.filter(m => m.content),
+      summary,
+      contextWindow,
+      snapshot: buildProjectSnapshot(files ?? [], { maxTokens: snapshotBudget(contextWindow), activeFile }).text,
+      canSummarize: !!conversationId,
+    }).usage;
+  }, [messages, summary, selectedModel, conversationId, files, activeFile]);
 
   const clearMessages = useCallback(() => {
     setMessages([]);
+    setSummary(null);
     hasLoadedMessages.current = false;
   }, []);
 
@@ -251,8 +617,13 @@ export function useChat(conversationId?: string) {
     isLoading,
     selectedModel,
     setSelectedModel,
+    contextUsage,
     sendMessage,
     stopGeneration,
+    fixAttempts,
+    requestFix,
+    reportFixResult,
+    resetFixAttempts,
     clearMessages,
     setMessages,
   };
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DEPLOY_CONFIG_KEYS } from '@/lib/deploy';
+import { DeployPlatform, deployTokenSecretName, listSecrets, setSecret } from '@/lib/secrets';
+
+const PLATFORMS: DeployPlatform[] = ['vercel', 'netlify'];
+
+// Moves tokens that older versions kept in localStorage into the vault
+async function moveLegacyTokens(): Promise<void> {
+  for (const platform of PLATFORMS) {
+    const stored = localStorage.getItem(DEPLOY_CONFIG_KEYS[platform]);
+    if (!stored) continue;
+    const { token, ...rest } = JSON.parse(stored);
+    if (!token) continue;
+    await setSecret(deployTokenSecretName(platform), token);
+    localStorage.setItem(DEPLOY_CONFIG_KEYS[platform], JSON.stringify(rest));
+  }
+}
+
+// Deploy tokens for the deploy dialogs: which platforms have one in the vault, and
+// any newly typed token waiting to be stored
+export function useDeployTokens(open: boolean) {
+  const [tokens, setTokens] = useState<Record<DeployPlatform, string>>({ vercel: '', netlify: '' });
+  const [saved, setSaved] = useState<Record<DeployPlatform, boolean>>({ vercel: false, netlify: false });
+
+  useEffect(() => {
+    if (!open) return;
+    moveLegacyTokens()
+      .then(listSecrets)
+      .then(names => setSaved({
+        vercel: names.includes(deployTokenSecretName('vercel')),
+        netlify: names.includes(deployTokenSecretName('netlify')),
+      }))
+      .catch((error) => console.error('Failed to load deploy tokens:', error));
+  }, [open]);
+
+  const setToken = useCallback((platform: DeployPlatform, value: string) => {
+    setTokens(prev => ({ ...prev, [platform]: value }));
+  }, []);
+
+  const hasToken = (platform: DeployPlatform) => saved[platform] || !!tokens[platform].trim();
+
+  // Stores a newly typed token before deploying; a no-op when none was typed
+  const saveToken = async (platform: DeployPlatform) => {
+    const token = tokens[platform].trim();
+    if (!token) return;
+    await setSecret(deployTokenSecretName(platform), token);
+    setSaved(prev => ({ ...prev, [platform]: true }));
+    setTokens(prev => ({ ...prev, [platform]: '' }));
+  };
+
+  return { tokens, saved, setToken, hasToken, saveToken };
+}
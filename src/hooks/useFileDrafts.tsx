@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useToast } from './use-toast';
+import { CodeFile, FileDraft } from '@/components/code/CodePreview';
+import { FileConflictError, UserFileEdit } from './useProjectFiles';
+
+export type SaveEdits = (edits: UserFileEdit[], options: { force: boolean }) => Promise<void>;
+
+// Unsaved editor changes, kept above the editor so they survive switching tabs and
+// conversations. Saving writes them back as a user version; files the assistant changed
+// in the meantime are reported as conflicts for the user to resolve.
+export function useFileDrafts(files: CodeFile[], saveEdits?: SaveEdits) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Map<string, FileDraft>>(new Map());
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Drafts of files that were renamed or deleted have nothing left to save into
+  useEffect(() => {
+    setDrafts(prev => {
+      const stale = [...prev.keys()].filter(path => !files.some(f => f.name === path));
+      if (stale.length === 0) return prev;
+      const next = new Map(prev);
+      stale.forEach(path => next.delete(path));
+      return next;
+    });
+  }, [files]);
+
+  // Drafts whose file changed underneath them since editing started
+  const changedSinceEdit = useMemo(() => {
+    const changed = new Set<string>();
+    for (const [path, draft] of drafts) {
+      const file = files.find(f => f.name === path);
+      if (file && file.content !== draft.base) changed.add(path);
+    }
+    return changed;
+  }, [drafts, files]);
+
+  const setDraft = useCallback((path: string, content: string) => {
+    const file = files.find(f => f.name === path);
+    if (!file) return;
+    setDrafts(prev => {
+      const next = new Map(prev);
+      if (content === file.content) {
+        next.delete(path);
+      } else {
+        next.set(path, { content, base: prev.get(path)?.base ?? file.content });
+      }
+      return next;
+    });
+  }, [files]);
+
+  const discard = useCallback((paths: string[]) => {
+    setDrafts(prev => {
+      const next = new Map(prev);
+      paths.forEach(path => next.delete(path));
+      return next;
+    });
+  }, []);
+
+  const save = useCallback(async (force = false) => {
+    if (!saveEdits || drafts.size === 0 || isSaving) return;
+    const edits = [...drafts].map(([path, draft]) => ({ path, content: draft.content, base: draft.base }));
+
+    setIsSaving(true);
+    try {
+      await saveEdits(edits, { force });
+      // Keep anything typed while the save was in flight, now based on what was just saved
+      setDrafts(prev => {
+        const next = new Map(prev);
+        edits.forEach(edit => {
+          const draft = next.get(edit.path);
+          if (!draft) return;
+          if (draft.content === edit.content) {
+            next.delete(edit.path);
+          } else {
+            next.set(edit.path, { ...draft, base: edit.content });
+          }
+        });
+        return next;
+      });
+      setConflicts([]);
+      toast({ title: 'Changes saved', description: `Saved ${edits.length} file(s) as a new version` });
+    } catch (error) {
+      if (error instanceof FileConflictError) setConflicts(error.paths);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [saveEdits, drafts, isSaving, toast]);
+
+  // Leaving the page would lose unsaved drafts
+  useEffect(() => {
+    if (drafts.size === 0) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [drafts.size]);
+
+  return {
+    drafts,
+    changedSinceEdit,
+    setDraft,
+    discard,
+    save,
+    canSave: !!saveEdits,
+    isSaving,
+    conflicts,
+    // Conflict resolutions
+    overwriteConflicts: () => save(true),
+    discardConflicts: () => {
+      discard(conflicts);
+      setConflicts([]);
+    },
+    dismissConflicts: () => setConflicts([]),
+  };
+}
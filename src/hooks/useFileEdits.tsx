@@ -0,0 +1,121 @@
+import { useState, useRef, useCallback } from 'react';
+import { useToast } from './use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { CodeFile } from '@/components/code/CodePreview';
+import { FileOperation } from '@/lib/fileOperations';
+import { normalizePath } from '@/lib/paths';
+import {
+  createOperations,
+  deleteOperations,
+  invertOperations,
+  moveOperations,
+  renameOperations,
+} from '@/lib/fileTreeEdits';
+
+interface FileEdit {
+  label: string;
+  // Operations that revert the edit
+  undo: FileOperation[];
+}
+
+interface UseFileEditsOptions {
+  files: CodeFile[];
+  // Persists operations; rejects when they couldn't be saved
+  apply: (operations: FileOperation[]) => Promise<void>;
+  activeFile?: string;
+  onActiveFileChange?: (path: string) => void;
+}
+
+const MAX_UNDO = 20;
+
+// Follows a path through renames, so the open file stays open when it or its folder moves
+function followRenames(path: string, operations: FileOperation[]): string {
+  return operations.reduce((current, op) => (op.type === 'rename' && op.path === current ? op.to : current), path);
+}
+
+// Create, rename, move and delete from the file explorer, with undo. Undo replays the
+// inverse operations, so it also works after the model has changed other files.
+export function useFileEdits({ files, apply, activeFile, onActiveFileChange }: UseFileEditsOptions) {
+  const { toast } = useToast();
+  const historyRef = useRef<FileEdit[]>([]);
+  const [undoLabel, setUndoLabel] = useState<string | undefined>();
+
+  const commit = useCallback(async (operations: FileOperation[]) => {
+    await apply(operations);
+    if (activeFile) {
+      const next = followRenames(activeFile, operations);
+      if (next !== activeFile) onActiveFileChange?.(next);
+    }
+  }, [apply, activeFile, onActiveFileChange]);
+
+  const syncUndoLabel = useCallback(() => {
+    setUndoLabel(historyRef.current[historyRef.current.length - 1]?.label);
+  }, []);
+
+  // Reverts one edit and takes it out of the history, wherever it is; each toast's
+  // Undo is bound to its own edit, which may no longer be the latest
+  const undoEdit = useCallback(async (edit: FileEdit) => {
+    const index = historyRef.current.indexOf(edit);
+    if (index === -1) return;
+    historyRef.current = historyRef.current.filter(e => e !== edit);
+    syncUndoLabel();
+    try {
+      await commit(edit.undo);
+      toast({ title: `Undid: ${edit.label}` });
+    } catch {
+      // Saving failed and was reported; keep the edit so undo can be retried
+      historyRef.current.splice(index, 0, edit);
+      syncUndoLabel();
+    }
+  }, [commit, toast, syncUndoLabel]);
+
+  const undo = useCallback(async () => {
+    const edit = historyRef.current[historyRef.current.length - 1];
+    if (edit) await undoEdit(edit);
+  }, [undoEdit]);
+
+  // Resolves to whether the edit was saved
+  const run = useCallback(async (label: string, build: () => FileOperation[]): Promise<boolean> => {
+    let operations: FileOperation[];
+    try {
+      operations = build();
+    } catch (error) {
+      toast({ title: 'Unable to change files', description: (error as Error).message, variant: 'destructive' });
+      return false;
+    }
+    if (operations.length === 0) return false;
+
+    const edit: FileEdit = { label, undo: invertOperations(files, operations) };
+    try {
+      await commit(operations);
+    } catch {
+      return false;
+    }
+    historyRef.current = [...historyRef.current.slice(-(MAX_UNDO - 1)), edit];
+    setUndoLabel(label);
+    toast({
+      title: label,
+      action: <ToastAction altText="Undo" onClick={() => undoEdit(edit)}>Undo</ToastAction>,
+    });
+    return true;
+  }, [files, commit, undoEdit, toast]);
+
+  const createEntry = useCallback(async (path: string, type: 'file' | 'folder') => {
+    const created = await run(`Created ${normalizePath(path)}`, () => createOperations(files, path, type));
+    if (created && type === 'file') onActiveFileChange?.(normalizePath(path));
+  }, [files, run, onActiveFileChange]);
+
+  const deleteEntry = useCallback((path: string) => {
+    return run(`Deleted ${path}`, () => deleteOperations(files, path));
+  }, [files, run]);
+
+  const renameEntry = useCallback((from: string, to: string) => {
+    return run(`Renamed ${from} to ${to}`, () => renameOperations(files, from, to));
+  }, [files, run]);
+
+  const moveEntry = useCallback((path: string, folder: string) => {
+    return run(`Moved ${path} to ${folder || 'the project root'}`, () => moveOperations(files, path, folder));
+  }, [files, run]);
+
+  return { createEntry, deleteEntry, renameEntry, moveEntry, undo, undoLabel };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CodeFile } from '@/components/code/CodePreview';
+import { PreviewAPI, createPreviewAPI } from '@/lib/preview';
+
+interface UsePreviewOptions {
+  // When false, file changes are ignored until live mode is turned back on
+  live?: boolean;
+  // Share a runtime created by the parent so it can refresh or subscribe to events
+  api?: PreviewAPI;
+}
+
+export function usePreview(files: CodeFile[], { live = true, api: externalApi }: UsePreviewOptions = {}) {
+  const api = useMemo(() => externalApi ?? createPreviewAPI(), [externalApi]);
+  const [state, setState] = useState(api.getState());
+
+  useEffect(() => api.subscribe(() => setState(api.getState())), [api]);
+
+  useEffect(() => {
+    if (live) api.updatePreview(files);
+  }, [api, files, live]);
+
+  const iframeRef = useCallback((iframe: HTMLIFrameElement | null) => api.attach(iframe), [api]);
+
+  return {
+    api,
+    iframeRef,
+    isReady: state.isReady,
+    error: state.error,
+    unsupportedPackages: state.unsupportedPackages,
+    refresh: api.refresh,
+    openInNewTab: api.openInNewTab,
+  };
+}
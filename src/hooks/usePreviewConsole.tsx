@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ConsoleLevel, PreviewAPI } from '@/lib/preview';
+
+const MAX_ENTRIES = 500;
+
+export type PreviewLogEntry =
+  | { id: number; kind: 'console'; level: ConsoleLevel; message: string; stack?: string; timestamp: number }
+  | {
+      id: number;
+      kind: 'network';
+      level: ConsoleLevel;
+      requestId: number;
+      method: string;
+      url: string;
+      status?: number;
+      error?: string;
+      duration?: number;
+      timestamp: number;
+    };
+
+let nextEntryId = 0;
+
+// Collects console output, uncaught errors and network requests from a preview runtime.
+// The log starts over whenever the preview reloads, like the browser's own console.
+export function usePreviewConsole(api: PreviewAPI) {
+  const [entries, setEntries] = useState<PreviewLogEntry[]>([]);
+
+  useEffect(() => api.subscribe(event => {
+    if (event.type === 'loading') {
+      setEntries([]);
+      return;
+    }
+
+    if (event.type === 'console' || event.type === 'error') {
+      const entry: PreviewLogEntry = event.type === 'console'
+        ? { id: ++nextEntryId, kind: 'console', level: event.level, message: event.args.join(' '), stack: event.stack, timestamp: Date.now() }
+        : { id: ++nextEntryId, kind: 'console', level: 'error', message: event.error, stack: event.stack, timestamp: Date.now() };
+      setEntries(prev => [...prev, entry].slice(-MAX_ENTRIES));
+      return;
+    }
+
+    if (event.type === 'network') {
+      const failed = !!event.error || (event.status ?? 0) >= 400;
+      setEntries(prev => {
+        const existing = prev.findIndex(entry => entry.kind === 'network' && entry.requestId === event.id);
+        if (existing === -1) {
+          const entry: PreviewLogEntry = {
+            id: ++nextEntryId,
+            kind: 'network',
+            level: failed ? 'error' : 'info',
+            requestId: event.id,
+            method: event.method,
+            url: event.url,
+            status: event.status,
+            error: event.error,
+            duration: event.duration,
+            timestamp: Date.now(),
+          };
+          return [...prev, entry].slice(-MAX_ENTRIES);
+        }
+        // A settled request updates its pending row in place
+        const next = [...prev];
+        next[existing] = {
+          ...(next[existing] as Extract<PreviewLogEntry, { kind: 'network' }>),
+          level: failed ? 'error' : 'info',
+          status: event.status,
+          error: event.error,
+          duration: event.duration,
+        };
+        return next;
+      });
+    }
+  }), [api]);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  return {
+    entries,
+    errorCount: entries.filter(entry => entry.level === 'error').length,
+    clear,
+  };
+}
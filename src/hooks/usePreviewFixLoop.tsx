@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CodeFile } from '@/components/code/CodePreview';
+import { PreviewAPI } from '@/lib/preview';
+import { MAX_FIX_ATTEMPTS, PreviewFailure } from '@/lib/previewFix';
+import { FixAttempt } from './useChat';
+
+// React renders after the loader reports ready, so wait this long for a late error
+// before treating a preview as working
+const SETTLE_DELAY = 1500;
+// A fix that leaves every file as it was never reloads the preview, so stop waiting for
+// the run it would have caused after this long
+const RUN_TIMEOUT = 10000;
+const AUTO_FIX_KEY = 'eternity-preview-autofix';
+
+// The loader and the page's error handlers can report one failure several times
+function isSameFailure(a: PreviewFailure, b: PreviewFailure): boolean {
+  return a.error === b.error && (a.stack ?? '') === (b.stack ?? '');
+}
+
+interface PreviewFixLoopOptions {
+  files: CodeFile[];
+  isLoading: boolean;
+  fixAttempts: FixAttempt[];
+  requestFix: (failure: PreviewFailure, files: CodeFile[], options?: { fresh?: boolean }) => Promise<boolean>;
+  reportFixResult: (ok: boolean) => void;
+}
+
+// Watches a preview for failures, reports how each fix attempt turned out and,
+// with auto-fix on, sends new failures back to the model until the budget runs out.
+export function usePreviewFixLoop(api: PreviewAPI, options: PreviewFixLoopOptions) {
+  const { files, isLoading, fixAttempts, requestFix, reportFixResult } = options;
+  const [failure, setFailure] = useState<PreviewFailure | null>(null);
+  const [autoFix, setAutoFixState] = useState(() => localStorage.getItem(AUTO_FIX_KEY) === 'true');
+  const reportRef = useRef(reportFixResult);
+  reportRef.current = reportFixResult;
+  // The failure the last automatic request was made for, so it is only sent once
+  const handledRef = useRef<PreviewFailure | null>(null);
+  // Set when a fix was applied: until the preview runs again with it, whatever the old
+  // run reports says nothing about the fix
+  const awaitingRunRef = useRef(false);
+
+  useEffect(() => {
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = api.subscribe(event => {
+      if (event.type === 'loading') {
+        clearTimeout(settleTimer);
+        awaitingRunRef.current = false;
+        setFailure(null);
+      } else if (awaitingRunRef.current) {
+        return;
+      } else if (event.type === 'ready') {
+        settleTimer = setTimeout(() => reportRef.current(true), SETTLE_DELAY);
+      } else if (event.type === 'error') {
+        clearTimeout(settleTimer);
+        const next = { error: event.error, stack: event.stack, file: event.file };
+        setFailure(prev => (prev && isSameFailure(prev, next) ? prev : next));
+        reportRef.current(false);
+      }
+    });
+    return () => {
+      clearTimeout(settleTimer);
+      unsubscribe();
+    };
+  }, [api]);
+
+  const inProgress = fixAttempts.length > 0 && !fixAttempts.some(a => a.status === 'resolved');
+  const exhausted = inProgress && fixAttempts.length >= MAX_FIX_ATTEMPTS;
+  const latestStatus = fixAttempts[fixAttempts.length - 1]?.status;
+
+  // The reply finishes before its files reach the preview
+  useEffect(() => {
+    if (latestStatus !== 'applied') return;
+    awaitingRunRef.current = true;
+    const timer = setTimeout(() => {
+      if (!awaitingRunRef.current) return;
+      awaitingRunRef.current = false;
+      reportRef.current(false);
+      // The old failure still stands; a fresh copy lets auto-fix send it again
+      setFailure(prev => (prev ? { ...prev } : prev));
+    }, RUN_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [latestStatus]);
+
+  useEffect(() => {
+    if (!autoFix || !failure || isLoading || exhausted || handledRef.current === failure) return;
+    if (awaitingRunRef.current) return;
+    handledRef.current = failure;
+    requestFix(failure, files);
+  }, [autoFix, failure, isLoading, exhausted, files, requestFix]);
+
+  const setAutoFix = useCallback((enabled: boolean) => {
+    localStorage.setItem(AUTO_FIX_KEY, String(enabled));
+    setAutoFixState(enabled);
+  }, []);
+
+  // Manual requests always go through; once the budget is spent they start a new run
+  const fixNow = useCallback(() => {
+    if (!failure) return;
+    handledRef.current = failure;
+    requestFix(failure, files, { fresh: exhausted });
+  }, [failure, files, exhausted, requestFix]);
+
+  return { failure, autoFix, setAutoFix, fixNow, exhausted };
+}
@@ -0,0 +1,214 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from './use-toast';
+import { useAuth } from './useAuth';
+import { CodeFile } from '@/components/code/CodePreview';
+import { FileOperation, applyFileOperations } from '@/lib/fileOperations';
+import { getLanguageFromPath } from '@/lib/codeExtractor';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface ProjectFile {
+  id: string;
+  project_id: string;
+  path: string;
+  language: string;
+  content: string;
+  updated_by_message_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// An edit made in the code editor; `base` is the file's content when editing started,
+// null for a file that didn't exist yet
+export interface UserFileEdit {
+  path: string;
+  content: string;
+  base: string | null;
+}
+
+// Thrown when files were changed, e.g. by the assistant, after the user started editing them
+export class FileConflictError extends Error {
+  constructor(public paths: string[]) {
+    super(`Changed while you were editing: ${paths.join(', ')}`);
+  }
+}
+
+// Keeps each upsert request comfortably below the API's body size limit
+const MAX_UPSERT_CHARS = 2 * 1024 * 1024;
+
+// Upserts files by path; messageId records which assistant message produced them.
+// Exported for writing files to a project that was just created, e.g. by an import.
+export async function upsertProjectFiles(projectId: string, files: CodeFile[], messageId?: string) {
+  let batch: CodeFile[] = [];
+  let batchChars = 0;
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const { error } = await supabase
+      .from('project_files')
+      .upsert(
+        batch.map(f => ({
+          project_id: projectId,
+          path: f.name,
+          language: f.language,
+          content: f.content,
+          updated_by_message_id: messageId ?? null,
+        })),
+        { onConflict: 'project_id,path' }
+      );
+    if (error) throw error;
+    batch = [];
+    batchChars = 0;
+  };
+
+  for (const file of files) {
+    if (batch.length > 0 && batchChars + file.content.length > MAX_UPSERT_CHARS) await flush();
+    batch.push(file);
+    batchChars += file.content.length;
+  }
+  await flush();
+}
+
+async function fetchProjectFiles(projectId: string): Promise<ProjectFile[]> {
+  const { data, error } = await supabase
+    .from('project_files')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('path', { ascending: true });
+
+  if (error) throw error;
+  return data as ProjectFile[];
+}
+
+// Canonical file set for a project, shared by chat output, restores and manual edits
+export function useProjectFiles(projectId?: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const filesQuery = useQuery({
+    queryKey: ['project-files', projectId],
+    queryFn: () => (projectId ? fetchProjectFiles(projectId) : []),
+    enabled: !!projectId,
+  });
+
+  const files = useMemo<CodeFile[]>(
+    () => (filesQuery.data ?? []).map(f => ({ name: f.path, language: f.language, content: f.content })),
+    [filesQuery.data]
+  );
+
+  const saveFiles = useMutation({
+    mutationFn: async ({ files, messageId }: { files: CodeFile[]; messageId?: string }) => {
+      if (!projectId) throw new Error('No project selected');
+      await upsertProjectFiles(projectId, files, messageId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-files', projectId] });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to save files', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // The stored files, loading them first if they aren't cached yet, e.g. when replies
+  // are applied as a conversation opens
+  const currentFiles = async () => {
+    if (!projectId) throw new Error('No project selected');
+    return queryClient.ensureQueryData({
+      queryKey: ['project-files', projectId],
+      queryFn: () => fetchProjectFiles(projectId),
+    });
+  };
+
+  // Makes the stored file set match `nextFiles`, touching only rows that changed
+  const syncFiles = async (nextFiles: CodeFile[], messageId?: string) => {
+    if (!projectId) throw new Error('No project selected');
+
+    const current = new Map((await currentFiles()).map(f => [f.path, f]));
+    const nextPaths = new Set(nextFiles.map(f => f.name));
+
+    const changed = nextFiles.filter(f => {
+      const existing = current.get(f.name);
+      return !existing || existing.content !== f.content || existing.language !== f.language;
+    });
+    const removed = Array.from(current.keys()).filter(path => !nextPaths.has(path));
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('project_files')
+        .delete()
+        .eq('project_id', projectId)
+        .in('path', removed);
+      if (error) throw error;
+    }
+
+    await upsertProjectFiles(projectId, changed, messageId);
+  };
+
+  // Applies create/update/delete/rename operations parsed from an assistant message
+  const applyOperations = useMutation({
+    mutationFn: async ({ operations, messageId }: { operations: FileOperation[]; messageId?: string }) => {
+      const files = (await currentFiles()).map(f => ({ name: f.path, language: f.language, content: f.content }));
+      await syncFiles(applyFileOperations(files, operations), messageId);
+    },
+    // Returned so mutateAsync resolves once the new files are loaded, e.g. before opening a renamed file
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['project-files', projectId] }),
+    onError: (error) => {
+      toast({ title: 'Failed to apply file changes', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Replaces the whole file set, e.g. when restoring a version or importing code
+  const replaceFiles = useMutation({
+    mutationFn: async ({ files, messageId }: { files: CodeFile[]; messageId?: string }) => {
+      await syncFiles(files, messageId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-files', projectId] });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to replace files', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Saves editor edits as a version attributed to the user. Unless `force` is set, edits
+  // to files that changed since editing started are rejected with a FileConflictError.
+  // The check and the write happen in one transaction, so a reply can't slip in between.
+  const saveUserVersion = useMutation({
+    mutationFn: async ({ edits, conversationId, force = false }: {
+      edits: UserFileEdit[];
+      conversationId?: string;
+      force?: boolean;
+    }) => {
+      if (!projectId) throw new Error('No project selected');
+      if (!user) throw new Error('Not authenticated');
+      if (edits.length === 0) return;
+
+      const { data: conflicts, error } = await supabase.rpc('save_user_version', {
+        project_id: projectId,
+        conversation_id: conversationId,
+        edits: edits.map(e => ({ ...e, language: getLanguageFromPath(e.path) })) as unknown as Json,
+        force,
+      });
+      if (error) throw error;
+      if (conflicts && conflicts.length > 0) throw new FileConflictError(conflicts);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['versions', projectId] });
+      return queryClient.invalidateQueries({ queryKey: ['project-files', projectId] });
+    },
+    onError: (error) => {
+      if (error instanceof FileConflictError) return;
+      toast({ title: 'Failed to save changes', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    files,
+    isLoading: filesQuery.isLoading,
+    saveFiles,
+    applyOperations,
+    replaceFiles,
+    saveUserVersion,
+  };
+}
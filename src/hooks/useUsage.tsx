@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { invokeFunction } from '@/lib/edgeFunctions';
+import { useAuth } from './useAuth';
+
+export interface UsageEvent {
+  id: string;
+  project_id: string | null;
+  conversation_id: string | null;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  estimated: boolean;
+  latency_ms: number;
+  created_at: string;
+}
+
+// Today's usage of the built-in models; null limits are unlimited
+export interface DailyQuotaStatus {
+  quota: { tokens: number | null; requests: number | null };
+  usage: { tokens: number; requests: number };
+}
+
+export function useUsage(days = 30) {
+  const { user } = useAuth();
+
+  const eventsQuery = useQuery({
+    queryKey: ['usage-events', user?.id, days],
+    queryFn: async () => {
+      if (!user) return [];
+      const since = new Date();
+      since.setUTCHours(0, 0, 0, 0);
+      since.setUTCDate(since.getUTCDate() - (days - 1));
+
+      const { data, error } = await supabase
+        .from('usage_events')
+        .select('id, project_id, conversation_id, provider, model, prompt_tokens, completion_tokens, estimated, latency_ms, created_at')
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as UsageEvent[];
+    },
+    enabled: !!user,
+  });
+
+  // Quotas are resolved by the chat function, which also applies the server-side defaults
+  const quotaQuery = useQuery({
+    queryKey: ['usage-quota', user?.id],
+    queryFn: () => invokeFunction<DailyQuotaStatus>('chat', { action: 'usage' }),
+    enabled: !!user,
+  });
+
+  return {
+    events: eventsQuery.data ?? [],
+    isLoading: eventsQuery.isLoading,
+    error: eventsQuery.error,
+    quota: quotaQuery.data ?? null,
+    refetch: () => Promise.all([eventsQuery.refetch(), quotaQuery.refetch()]),
+  };
+}
@@ -14,11 +14,57 @@ export type Database = {
   }
   public: {
     Tables: {
+      attachments: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          message_id: string
+          mime_type: string | null
+          name: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          message_id: string
+          mime_type?: string | null
+          name: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          message_id?: string
+          mime_type?: string | null
+          name?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           created_at: string
           id: string
           project_id: string | null
+          summary: string | null
+          summary_message_id: string | null
           title: string
           updated_at: string
           user_id: string
@@ -27,6 +73,8 @@ export type Database = {
           created_at?: string
           id?: string
           project_id?: string | null
+          summary?: string | null
+          summary_message_id?: string | null
           title?: string
           updated_at?: string
           user_id: string
@@ -35,6 +83,8 @@ export type Database = {
           created_at?: string
           id?: string
           project_id?: string | null
+          summary?: string | null
+          summary_message_id?: string | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -47,29 +97,63 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversations_summary_message_id_fkey"
+            columns: ["summary_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      deleted_attachments: {
+        Row: {
+          deleted_at: string
+          storage_path: string
+        }
+        Insert: {
+          deleted_at?: string
+          storage_path: string
+        }
+        Update: {
+          deleted_at?: string
+          storage_path?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           content: string
           conversation_id: string
           created_at: string
+          files_applied_at: string | null
           id: string
+          legacy_code_blocks: boolean
           role: string
+          status: string
+          updated_at: string
         }
         Insert: {
           content: string
           conversation_id: string
           created_at?: string
+          files_applied_at?: string | null
           id?: string
+          legacy_code_blocks?: boolean
           role: string
+          status?: string
+          updated_at?: string
         }
         Update: {
           content?: string
           conversation_id?: string
           created_at?: string
+          files_applied_at?: string | null
           id?: string
+          legacy_code_blocks?: boolean
           role?: string
+          status?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -81,6 +165,96 @@ export type Database = {
           },
         ]
       }
+      project_files: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          language: string
+          path: string
+          project_id: string
+          updated_at: string
+          updated_by_message_id: string | null
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          id?: string
+          language?: string
+          path: string
+          project_id: string
+          updated_at?: string
+          updated_by_message_id?: string | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          language?: string
+          path?: string
+          project_id?: string
+          updated_at?: string
+          updated_by_message_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_files_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_files_updated_by_message_id_fkey"
+            columns: ["updated_by_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_versions: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          id: string
+          operations: Json
+          project_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          operations: Json
+          project_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          operations?: Json
+          project_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_versions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           created_at: string
@@ -111,12 +285,141 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_events: {
+        Row: {
+          completion_tokens: number
+          conversation_id: string | null
+          created_at: string
+          estimated: boolean
+          id: string
+          latency_ms: number
+          model: string
+          project_id: string | null
+          prompt_tokens: number
+          provider: string
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          conversation_id?: string | null
+          created_at?: string
+          estimated?: boolean
+          id?: string
+          latency_ms?: number
+          model: string
+          project_id?: string | null
+          prompt_tokens?: number
+          provider: string
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          conversation_id?: string | null
+          created_at?: string
+          estimated?: boolean
+          id?: string
+          latency_ms?: number
+          model?: string
+          project_id?: string | null
+          prompt_tokens?: number
+          provider?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_events_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_quotas: {
+        Row: {
+          created_at: string
+          daily_request_limit: number | null
+          daily_token_limit: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          daily_request_limit?: number | null
+          daily_token_limit?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          daily_request_limit?: number | null
+          daily_token_limit?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_secrets: {
+        Row: {
+          base_url: string | null
+          ciphertext: string
+          created_at: string
+          id: string
+          iv: string
+          name: string
+          provider: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          base_url?: string | null
+          ciphertext: string
+          created_at?: string
+          id?: string
+          iv: string
+          name: string
+          provider?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          base_url?: string | null
+          ciphertext?: string
+          created_at?: string
+          id?: string
+          iv?: string
+          name?: string
+          provider?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      mark_file_operations_applied: {
+        Args: { message_id: string }
+        Returns: undefined
+      }
+      save_user_version: {
+        Args: {
+          conversation_id?: string
+          edits: Json
+          force?: boolean
+          project_id: string
+        }
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,140 @@
+// Message attachments: the files go to the private message-attachments bucket and
+// rows in `attachments` link them to their message. The model still sees text files
+// inline in the message content; these helpers also let the chat hide that again.
+import { supabase } from '@/integrations/supabase/client';
+import type { FileAttachment } from '@/components/chat/ChatInput';
+
+const BUCKET = 'message-attachments';
+// Signed URLs for thumbnails and downloads; reloading the conversation issues new ones
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export interface MessageAttachment {
+  name: string;
+  type: 'image' | 'file';
+  // Image source: a data URL while composing, a signed URL once stored
+  preview?: string;
+  content?: string;
+  // Download link for stored attachments
+  url?: string;
+  size?: number;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatFileContext(name: string, content: string): string {
+  return `\n\n--- File: ${name} ---\n${content}\n--- End of ${name} ---\n`;
+}
+
+export function formatImageContext(name: string): string {
+  return `\n\n[Attached image: ${name}]`;
+}
+
+const FILE_CONTEXT = /\n\n--- File: (.+?) ---\n[\s\S]*?\n--- End of \1 ---\n/g;
+const IMAGE_CONTEXT = /\n\n\[Attached image: (.+?)\]/g;
+
+// Separates what the user typed from the attachment text appended for the model,
+// so messages saved before attachments were stored still show which files they had
+export function splitAttachmentContext(content: string): { text: string; attachments: MessageAttachment[] } {
+  const attachments: MessageAttachment[] = [];
+  const text = content
+    .replace(FILE_CONTEXT, (_, name: string) => {
+      attachments.push({ name, type: 'file' });
+      return '';
+    })
+    .replace(IMAGE_CONTEXT, (_, name: string) => {
+      attachments.push({ name, type: 'image' });
+      return '';
+    });
+  return { text: text.trim(), attachments };
+}
+
+function storagePath(userId: string, messageId: string, name: string): string {
+  const safeName = name.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+  return `${userId}/${messageId}/${crypto.randomUUID()}-${safeName}`;
+}
+
+// Uploads the files and links them to the saved message
+export async function uploadAttachments(
+  userId: string,
+  messageId: string,
+  attachments: FileAttachment[]
+): Promise<void> {
+  const uploads = await Promise.allSettled(attachments.map(async ({ file, type }) => {
+    const path = storagePath(userId, messageId, file.name);
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+    if (error) throw error;
+    return {
+      message_id: messageId,
+      user_id: userId,
+      name: file.name,
+      kind: type,
+      mime_type: file.type || null,
+      size_bytes: file.size,
+      storage_path: path,
+    };
+  }));
+
+  // Nothing is linked unless every file made it; the ones that did would be orphans
+  const rows = uploads.flatMap(upload => (upload.status === 'fulfilled' ? [upload.value] : []));
+  const failed = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+  if (failed) {
+    if (rows.length > 0) await supabase.storage.from(BUCKET).remove(rows.map(row => row.storage_path));
+    throw failed.reason;
+  }
+
+  const { error } = await supabase.from('attachments').insert(rows);
+  if (error) {
+    await supabase.storage.from(BUCKET).remove(rows.map(row => row.storage_path));
+    throw error;
+  }
+}
+
+// Stored attachments of the given messages, by message id, with signed URLs
+export async function loadAttachments(messageIds: string[]): Promise<Map<string, MessageAttachment[]>> {
+  const byMessage = new Map<string, MessageAttachment[]>();
+  if (messageIds.length === 0) return byMessage;
+
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('message_id, name, kind, size_bytes, storage_path')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return byMessage;
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrls(data.map(row => row.storage_path), SIGNED_URL_SECONDS);
+  if (signError) throw signError;
+  const urls = new Map((signed ?? []).map(entry => [entry.path, entry.signedUrl]));
+
+  for (const row of data) {
+    const url = urls.get(row.storage_path) ?? undefined;
+    const type = row.kind === 'image' ? 'image' : 'file';
+    const list = byMessage.get(row.message_id) ?? [];
+    list.push({ name: row.name, type, url, preview: type === 'image' ? url : undefined, size: row.size_bytes });
+    byMessage.set(row.message_id, list);
+  }
+  return byMessage;
+}
+
+// Removes the stored files of a conversation right away; the rows go with its messages.
+// Throws if storage refuses; the files are then queued for the attachments-cleanup job
+// when their rows are deleted, so callers can still go ahead with the deletion.
+export async function deleteConversationAttachments(conversationId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('storage_path, messages!inner(conversation_id)')
+    .eq('messages.conversation_id', conversationId);
+  if (error) throw error;
+  if (data && data.length > 0) {
+    const { error: removeError } = await supabase.storage.from(BUCKET).remove(data.map(row => row.storage_path));
+    if (removeError) throw removeError;
+  }
+}
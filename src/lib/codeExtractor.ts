@@ -1,5 +1,6 @@
 import { Message } from '@/hooks/useChat';
 import { CodeFile } from '@/components/code/CodePreview';
+import { normalizePath } from './paths';
 
 // Extracts code blocks from markdown content
 export function extractCodeBlocks(messages: Message[]): CodeFile[] {
@@ -17,11 +18,11 @@ export function extractCodeBlocks(messages: Message[]): CodeFile[] {
       const content = match[2].trim();
       
       if (content.length > 0) {
-        // Try to extract filename from the content or previous line
-        let filename = extractFilename(message.content, match.index) || 
-                       `code${fileCounter}.${getExtension(language)}`;
+        // Try to extract the file path from the content or previous line
+        const filename = extractFilename(message.content, match.index, content) || 
+                         `code${fileCounter}.${getExtension(language)}`;
         
-        // Avoid duplicates - update if same name exists
+        // Avoid duplicates - update if same path exists
         const existingIndex = files.findIndex(f => f.name === filename);
         if (existingIndex >= 0) {
           files[existingIndex] = { name: filename, language: mapLanguage(language), content };
@@ -36,7 +37,14 @@ export function extractCodeBlocks(messages: Message[]): CodeFile[] {
   return files;
 }
 
-function extractFilename(content: string, codeBlockIndex: number): string | null {
+function extractFilename(content: string, codeBlockIndex: number, code: string): string | null {
+  // Older prompts asked for the path as a comment on the first line of the block
+  const firstLine = code.split('\n')[0];
+  const commentMatch = firstLine.match(/^\s*(?:\/\/|\/\*|<!--|#)\s*([a-zA-Z0-9_./-]+\.[a-zA-Z]+)\s*(?:\*\/|-->)?\s*$/);
+  if (commentMatch) {
+    return normalizePath(commentMatch[1]);
+  }
+
   // Look for common patterns before the code block
   const beforeBlock = content.slice(Math.max(0, codeBlockIndex - 200), codeBlockIndex);
   
@@ -44,15 +52,15 @@ function extractFilename(content: string, codeBlockIndex: number): string | null
   const patterns = [
     /(?:file|create|update|in)\s*[:`]?\s*([a-zA-Z0-9_\-./]+\.[a-zA-Z]+)/i,
     /`([a-zA-Z0-9_\-./]+\.[a-zA-Z]+)`/,
-    /([a-zA-Z0-9_\-]+\.[a-zA-Z]+)\s*:?\s*$/m,
+    /([a-zA-Z0-9_\-./]+\.[a-zA-Z]+)\s*:?\s*$/m,
   ];
 
   for (const pattern of patterns) {
     const match = beforeBlock.match(pattern);
     if (match) {
-      // Get just the filename, not the full path
-      const parts = match[1].split('/');
-      return parts[parts.length - 1];
+      // Keep the full relative path so same-named files in different folders stay distinct
+      const path = normalizePath(match[1]);
+      if (path) return path;
     }
   }
 
@@ -91,3 +99,18 @@ function mapLanguage(language: string): string {
   };
   return languageMap[language.toLowerCase()] || language.toLowerCase();
 }
+
+// Infers the editor language from a file path's extension
+export function getLanguageFromPath(path: string): string {
+  const fileName = path.split('/').pop() || '';
+  if (!fileName.includes('.')) return 'plaintext';
+
+  const ext = fileName.split('.').pop()!.toLowerCase();
+  const languages: Record<string, string> = {
+    md: 'markdown',
+    yml: 'yaml',
+    yaml: 'yaml',
+    txt: 'plaintext',
+  };
+  return languages[ext] || mapLanguage(ext);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { SYSTEM_PROMPT, withConversationSummary } from '@shared/prompts.ts';
+import { ContextMessage, buildContext, estimateTokens } from './contextBuilder';
+
+// Ten alternating turns of 104 tokens each (100 for the text, 4 for the message)
+const MESSAGES: ContextMessage[] = Array.from({ length: 10 }, (_, i) => ({
+  id: `m${i}`,
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  content: String(i).repeat(400),
+}));
+const MESSAGE_TOKENS = 104;
+
+// A context window that leaves about `budget` tokens for turns after the system
+// prompt and the quarter reserved for the reply
+function windowFor(budget: number, prompt = SYSTEM_PROMPT): number {
+  return 4 * Math.ceil((budget + estimateTokens(prompt)) / 3);
+}
+
+const ids = (messages: ContextMessage[]) => messages.map(m => m.id);
+
+describe('buildContext', () => {
+  it('sends every turn while they fit', () => {
+    const plan = buildContext({ messages: MESSAGES, summary: null, contextWindow: windowFor(2000) });
+    expect(ids(plan.messages)).toEqual(ids(MESSAGES));
+    expect(plan.summarizeThrough).toBeNull();
+    expect(plan.summaryMessageId).toBeNull();
+    expect(plan.usage.tokens).toBe(estimateTokens(SYSTEM_PROMPT) + 10 * MESSAGE_TOKENS);
+  });
+
+  it('reserves a quarter of small windows for the reply, up to 16k tokens', () => {
+    expect(buildContext({ messages: MESSAGES, summary: null, contextWindow: 8_000 }).usage.reserved).toBe(2_000);
+    expect(buildContext({ messages: MESSAGES, summary: null, contextWindow: 200_000 }).usage.reserved).toBe(16_000);
+  });
+
+  it('keeps the newest turns within half the budget and folds the rest', () => {
+    const plan = buildContext({ messages: MESSAGES, summary: null, contextWindow: windowFor(1000) });
+    // Four turns fit in 500 tokens; the first kept one is a user turn
+    expect(ids(plan.messages)).toEqual(['m6', 'm7', 'm8', 'm9']);
+    expect(plan.summarizeThrough).toBe('m5');
+  });
+
+  it('drops older turns without a saved conversation to summarize into', () => {
+    const plan = buildContext({ messages: MESSAGES, summary: null, contextWindow: windowFor(1000), canSummarize: false });
+    // Nine turns fit the whole budget, but the history has to open with a user turn
+    expect(ids(plan.messages)).toEqual(['m2', 'm3', 'm4', 'm5', 'm6', 'm7', 'm8', 'm9']);
+    expect(plan.summarizeThrough).toBeNull();
+  });
+
+  it('always sends the latest message', () => {
+    const plan = buildContext({ messages: MESSAGES, summary: null, contextWindow: windowFor(50) });
+    expect(ids(plan.messages)).toEqual(['m9']);
+    expect(plan.summarizeThrough).toBe('m8');
+  });
+
+  it('counts images in the budget', () => {
+    const messages: ContextMessage[] = [
+      { id: 'a', role: 'user', content: 'Old' },
+      { id: 'b', role: 'assistant', content: 'Reply' },
+      { id: 'c', role: 'user', content: 'Like this', images: [{ mediaType: 'image/png', data: 'x' }] },
+    ];
+    const plan = buildContext({ messages, summary: null, contextWindow: windowFor(1000) });
+    expect(ids(plan.messages)).toEqual(['c']);
+    expect(plan.summarizeThrough).toBe('b');
+  });
+
+  it('sends only the turns after the summary, with the summary', () => {
+    const summary = { summary: 'Built a todo app.', throughMessageId: 'm5' };
+    const plan = buildContext({ messages: MESSAGES, summary, contextWindow: windowFor(2000) });
+    expect(ids(plan.messages)).toEqual(['m6', 'm7', 'm8', 'm9']);
+    expect(plan.summaryMessageId).toBe('m5');
+    expect(plan.usage.summarized).toBe(true);
+    expect(plan.usage.tokens).toBe(
+      estimateTokens(withConversationSummary(SYSTEM_PROMPT, summary.summary)) + 4 * MESSAGE_TOKENS
+    );
+  });
+
+  it('folds turns past the summary once they no longer fit', () => {
+    const summary = { summary: 'Built a todo app.', throughMessageId: 'm1' };
+    const prompt = withConversationSummary(SYSTEM_PROMPT, summary.summary);
+    const plan = buildContext({ messages: MESSAGES, summary, contextWindow: windowFor(600, prompt) });
+    expect(ids(plan.messages)).toEqual(['m8', 'm9']);
+    expect(plan.summarizeThrough).toBe('m7');
+    expect(plan.summaryMessageId).toBe('m1');
+  });
+
+  it('sends the whole history instead of a summary it cannot place', () => {
+    const summary = { summary: 'Built a todo app.', throughMessageId: 'gone' };
+    const plan = buildContext({ messages: MESSAGES, summary, contextWindow: windowFor(2000) });
+    expect(ids(plan.messages)).toEqual(ids(MESSAGES));
+    expect(plan.summaryMessageId).toBeNull();
+    expect(plan.usage.summarized).toBe(false);
+    expect(plan.usage.tokens).toBe(estimateTokens(SYSTEM_PROMPT) + 10 * MESSAGE_TOKENS);
+  });
+});
@@ -0,0 +1,118 @@
+// Decides what of a conversation is sent to the model. The system prompt and the
+// project snapshot always go; recent turns go as-is while they fit the model's
+// context window, and older turns are folded into the conversation's running summary.
+import { SYSTEM_PROMPT, withConversationSummary, withProjectSnapshot } from '@shared/prompts.ts';
+import type { ProviderImage } from '@shared/providers/index.ts';
+
+export interface ContextMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  images?: ProviderImage[];
+}
+
+// Mirrors the summary kept on the conversation by the chat function
+export interface ConversationSummary {
+  summary: string | null;
+  // Last message folded into the summary
+  throughMessageId: string | null;
+}
+
+export interface ContextUsage {
+  // Everything the next request would hold before any turns are folded
+  tokens: number;
+  contextWindow: number;
+  // Room kept free for the reply
+  reserved: number;
+  summarized: boolean;
+}
+
+export interface ContextPlan {
+  messages: ContextMessage[];
+  usage: ContextUsage;
+  // Fold every message up to and including this one into the summary, then build again
+  summarizeThrough: string | null;
+  // Last message of the summary sent along with `messages`; null when no summary is sent
+  summaryMessageId: string | null;
+}
+
+interface BuildContextOptions {
+  messages: ContextMessage[];
+  summary: ConversationSummary | null;
+  contextWindow: number;
+  // The project's files, sent with every turn (see projectSnapshot.ts)
+  snapshot?: string;
+  // False when there is no saved conversation to keep a summary on; older turns are then dropped
+  canSummarize?: boolean;
+}
+
+// After folding, recent turns take at most this share of the budget, so the summary
+// isn't rewritten on every message once a conversation gets long
+const RECENT_SHARE = 0.5;
+
+const MAX_REPLY_TOKENS = 16_000;
+
+// What providers charge for an image downscaled to about 1500px, give or take
+const IMAGE_TOKENS = 1_600;
+
+// Roughly four characters per token for English text and code, like the server's usage estimates
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Per-message overhead for roles and separators
+function messageTokens(message: ContextMessage): number {
+  return estimateTokens(message.content) + (message.images?.length ?? 0) * IMAGE_TOKENS + 4;
+}
+
+export function buildContext({
+  messages,
+  summary,
+  contextWindow,
+  snapshot,
+  canSummarize = true,
+}: BuildContextOptions): ContextPlan {
+  // A summary whose last message isn't in the history (e.g. a failed reply that is
+  // left out) can't be placed, so the whole history goes instead of the summary
+  const coveredIndex = summary?.summary && summary.throughMessageId
+    ? messages.findIndex(m => m.id === summary.throughMessageId)
+    : -1;
+  const applied = coveredIndex === -1 ? null : summary;
+  const pending = messages.slice(coveredIndex + 1);
+  const summaryMessageId = applied?.throughMessageId ?? null;
+
+  const reserved = Math.min(MAX_REPLY_TOKENS, Math.floor(contextWindow / 4));
+  const fixed = estimateTokens(
+    withProjectSnapshot(withConversationSummary(SYSTEM_PROMPT, applied?.summary), snapshot)
+  );
+  const budget = Math.max(0, contextWindow - reserved - fixed);
+  const pendingTokens = pending.reduce((sum, m) => sum + messageTokens(m), 0);
+
+  const usage: ContextUsage = {
+    tokens: fixed + pendingTokens,
+    contextWindow,
+    reserved,
+    summarized: !!applied,
+  };
+  if (pendingTokens <= budget) {
+    return { messages: pending, usage, summarizeThrough: null, summaryMessageId };
+  }
+
+  // Keep the newest turns that fit, always including the latest message
+  const limit = canSummarize ? budget * RECENT_SHARE : budget;
+  let start = pending.length - 1;
+  let kept = messageTokens(pending[start]);
+  while (start > 0 && kept + messageTokens(pending[start - 1]) <= limit) {
+    start--;
+    kept += messageTokens(pending[start]);
+  }
+  // Providers expect the history to open with a user turn
+  while (start < pending.length - 1 && pending[start].role !== 'user') start++;
+
+  return {
+    messages: pending.slice(start),
+    usage,
+    summarizeThrough: canSummarize && start > 0 ? pending[start - 1].id : null,
+    summaryMessageId,
+  };
+}
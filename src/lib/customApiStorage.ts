@@ -1,11 +1,18 @@
-// Custom API Key storage for user-provided AI APIs
-// Stored in localStorage for privacy
+// Custom API profiles for user-provided AI APIs
+// Profiles are stored in localStorage; their API keys live in the server-side vault
+import { ProviderId, getProvider } from '@shared/providers/index.ts';
+import { SecretEndpoint, apiProfileSecretName, setSecret } from './secrets';
 
-export interface CustomApiConfig {
-  provider: 'openai' | 'anthropic' | 'google' | 'custom';
-  apiKey: string;
+// One configured provider endpoint: a key (or a keyless local server) and the models it serves
+export interface ApiProfile {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  // Whether the vault holds a key for this profile; the key itself never comes back
+  hasApiKey: boolean;
   baseUrl?: string;
-  modelId?: string;
+  // Model ids offered in the model selector; empty means the provider's default model
+  models: string[];
   enabled: boolean;
 }
 
@@ -13,85 +20,207 @@ export interface CustomApiConfig {
 export interface CustomApiModel {
   id: string;
   name: string;
-  provider: CustomApiConfig['provider'];
+  provider: ProviderId;
+  profileId: string;
+  profileName: string;
+}
+
+// What the chat function needs to call a custom provider; it looks the key up by profile id.
+// For a profile with a key, the function uses the provider and base URL saved in the vault.
+export interface CustomApiRequest {
+  enabled: true;
+  provider: ProviderId;
+  profileId: string;
+  baseUrl?: string;
+  modelId: string;
 }
 
-const STORAGE_KEY = 'eternity-custom-api';
+// Exported profiles say nothing about API keys
+export type ExportedApiProfile = Omit<ApiProfile, 'hasApiKey'>;
+
+// Profiles saved before keys moved to the vault kept them here
+type StoredApiProfile = ApiProfile & { apiKey?: string };
+
+const STORAGE_KEY = 'eternity-api-profiles';
+// The single config saved before profiles existed
+const LEGACY_STORAGE_KEY = 'eternity-custom-api';
+const EXPORT_VERSION = 1;
+const MODEL_ID_PREFIX = 'custom:';
+
+function migrateLegacyConfig(): StoredApiProfile[] {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return [];
+    const legacy = JSON.parse(stored);
+    const provider = getProvider(legacy.provider);
+    const profiles: StoredApiProfile[] = [{
+      id: crypto.randomUUID(),
+      name: provider?.name ?? 'Custom API',
+      provider: provider ? legacy.provider : 'custom',
+      apiKey: legacy.apiKey || undefined,
+      hasApiKey: false,
+      baseUrl: legacy.baseUrl || undefined,
+      models: legacy.modelId ? [legacy.modelId] : [],
+      enabled: !!legacy.enabled,
+    }];
+    setApiProfiles(profiles);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return profiles;
+  } catch (e) {
+    console.error('Failed to migrate custom API config:', e);
+    return [];
+  }
+}
 
-export function getCustomApiConfig(): CustomApiConfig | null {
+export function getApiProfiles(): StoredApiProfile[] {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
       return JSON.parse(stored);
     }
   } catch (e) {
-    console.error('Failed to parse custom API config:', e);
+    console.error('Failed to parse custom API profiles:', e);
+    return [];
+  }
+  return migrateLegacyConfig();
+}
+
+export function setApiProfiles(profiles: StoredApiProfile[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function saveApiProfile(profile: ApiProfile): void {
+  const profiles = getApiProfiles();
+  const index = profiles.findIndex(p => p.id === profile.id);
+  if (index === -1) {
+    profiles.push(profile);
+  } else {
+    profiles[index] = profile;
   }
-  return null;
+  setApiProfiles(profiles);
+}
+
+export function deleteApiProfile(id: string): void {
+  setApiProfiles(getApiProfiles().filter(p => p.id !== id));
+}
+
+// Keyless providers (local model servers) are usable without an API key
+export function isProfileUsable(profile: ApiProfile): boolean {
+  if (!profile.enabled) return false;
+  const provider = getProvider(profile.provider);
+  if (!provider) return false;
+  if (provider.requiresBaseUrl && !profile.baseUrl) return false;
+  return profile.hasApiKey || !provider.requiresApiKey;
 }
 
-export function setCustomApiConfig(config: CustomApiConfig): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+export function profileEndpoint(profile: ApiProfile): SecretEndpoint {
+  return { provider: profile.provider, baseUrl: profile.baseUrl };
 }
 
-export function clearCustomApiConfig(): void {
-  localStorage.removeItem(STORAGE_KEY);
+// Uploads keys still kept in localStorage to the vault and forgets them locally.
+// Safe to call repeatedly; does nothing once every key has moved.
+export async function moveApiKeysToVault(): Promise<void> {
+  const pending = getApiProfiles().filter(p => p.apiKey);
+  for (const profile of pending) {
+    await setSecret(apiProfileSecretName(profile.id), profile.apiKey!, profileEndpoint(profile));
+    const { apiKey, ...rest } = profile;
+    saveApiProfile({ ...rest, hasApiKey: !!apiKey });
+  }
 }
 
 export function isCustomApiEnabled(): boolean {
-  const config = getCustomApiConfig();
-  return config?.enabled === true && !!config.apiKey;
-}
-
-// Get the custom API model for the model selector
-export function getCustomApiModel(): CustomApiModel | null {
-  const config = getCustomApiConfig();
-  if (!config?.enabled || !config.apiKey) return null;
-  
-  const providerNames: Record<string, string> = {
-    openai: 'OpenAI',
-    anthropic: 'Anthropic',
-    google: 'Google AI',
-    custom: 'Custom',
-  };
-  
-  const modelName = config.modelId || getDefaultModelForProvider(config.provider);
-  
+  return getApiProfiles().some(isProfileUsable);
+}
+
+export function getProfileModels(profile: ApiProfile): string[] {
+  return profile.models.length > 0 ? profile.models : [getProvider(profile.provider)?.defaultModel ?? 'default'];
+}
+
+// Model ids look like "custom:<profileId>:<model>"; the model part may itself contain colons
+export function toCustomModelId(profileId: string, model: string): string {
+  return `${MODEL_ID_PREFIX}${profileId}:${model}`;
+}
+
+export function parseCustomModelId(id: string): { profileId: string; model: string } | null {
+  if (!id.startsWith(MODEL_ID_PREFIX)) return null;
+  const rest = id.slice(MODEL_ID_PREFIX.length);
+  const separator = rest.indexOf(':');
+  if (separator === -1) return null;
+  return { profileId: rest.slice(0, separator), model: rest.slice(separator + 1) };
+}
+
+// Every model of every usable profile, for the model selector
+export function getCustomApiModels(): CustomApiModel[] {
+  return getApiProfiles().filter(isProfileUsable).flatMap(profile =>
+    getProfileModels(profile).map(model => ({
+      id: toCustomModelId(profile.id, model),
+      name: model,
+      provider: profile.provider,
+      profileId: profile.id,
+      profileName: profile.name,
+    }))
+  );
+}
+
+// Resolves a selected custom model to the provider request the chat function expects
+export function resolveCustomModel(modelId: string): CustomApiRequest | null {
+  const parsed = parseCustomModelId(modelId);
+  if (!parsed) return null;
+  const profile = getApiProfiles().find(p => p.id === parsed.profileId);
+  if (!profile || !isProfileUsable(profile)) return null;
   return {
-    id: `custom:${config.provider}`,
-    name: config.modelId || `${providerNames[config.provider]} (Custom)`,
-    provider: config.provider,
+    enabled: true,
+    provider: profile.provider,
+    profileId: profile.id,
+    baseUrl: profile.baseUrl,
+    modelId: parsed.model,
   };
 }
 
-// Get default model based on provider
-export function getDefaultModelForProvider(provider: string): string {
-  switch (provider) {
-    case 'openai':
-      return 'gpt-4o';
-    case 'anthropic':
-      return 'claude-3-5-sonnet-20241022';
-    case 'google':
-      return 'gemini-2.0-flash';
-    default:
-      return 'custom-model';
-  }
+export function exportApiProfiles(profiles: ApiProfile[] = getApiProfiles()): string {
+  const exported: ExportedApiProfile[] = profiles.map(profile => ({
+    id: profile.id,
+    name: profile.name,
+    provider: profile.provider,
+    baseUrl: profile.baseUrl,
+    models: profile.models,
+    enabled: profile.enabled,
+  }));
+  return JSON.stringify({ version: EXPORT_VERSION, profiles: exported }, null, 2);
 }
 
-// Get API endpoint based on provider
-export function getApiEndpoint(config: CustomApiConfig): string {
-  if (config.baseUrl) {
-    return config.baseUrl.endsWith('/') ? config.baseUrl.slice(0, -1) : config.baseUrl;
-  }
-  
-  switch (config.provider) {
-    case 'openai':
-      return 'https://api.openai.com/v1';
-    case 'anthropic':
-      return 'https://api.anthropic.com/v1';
-    case 'google':
-      return 'https://generativelanguage.googleapis.com/v1beta';
-    default:
-      return config.baseUrl || '';
+// Adds profiles from an export. Profiles that already exist keep their vaulted key;
+// new ones arrive without a key and disabled until one is entered.
+export function importApiProfiles(json: string): number {
+  const parsed = JSON.parse(json);
+  const incoming: unknown[] = Array.isArray(parsed?.profiles) ? parsed.profiles : [];
+  const profiles = getApiProfiles();
+  let imported = 0;
+
+  for (const item of incoming) {
+    const candidate = item as Partial<ExportedApiProfile>;
+    if (!candidate?.name || !getProvider(candidate.provider)) continue;
+
+    const existing = profiles.find(p => p.id === candidate.id);
+    const profile: StoredApiProfile = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: String(candidate.name),
+      provider: candidate.provider as ProviderId,
+      apiKey: existing?.apiKey,
+      hasApiKey: existing?.hasApiKey ?? false,
+      baseUrl: candidate.baseUrl || undefined,
+      models: Array.isArray(candidate.models) ? candidate.models.map(String) : [],
+      enabled: existing ? !!candidate.enabled : false,
+    };
+
+    if (existing) {
+      profiles[profiles.indexOf(existing)] = profile;
+    } else {
+      profiles.push(profile);
+    }
+    imported++;
   }
+
+  setApiProfiles(profiles);
+  return imported;
 }
@@ -0,0 +1,24 @@
+// One-click deploys run in the deploy edge function with the token from the user's vault
+import { invokeFunction } from './edgeFunctions';
+import { DeployPlatform } from './secrets';
+
+// localStorage keys remembering where each platform last deployed; tokens are not kept here
+export const DEPLOY_CONFIG_KEYS: Record<DeployPlatform, string> = {
+  vercel: 'eternity_vercel_config',
+  netlify: 'eternity_netlify_config',
+};
+
+export interface Deployment {
+  url: string;
+  // Vercel project id or Netlify site id
+  targetId: string;
+}
+
+export function deployProject(
+  platform: DeployPlatform,
+  name: string,
+  files: { path: string; content: string }[],
+  targetId?: string
+): Promise<Deployment> {
+  return invokeFunction<Deployment>('deploy', { platform, name, files, targetId });
+}
@@ -0,0 +1,28 @@
+// Calls to the project's edge functions on behalf of the signed-in user
+import { supabase } from '@/integrations/supabase/client';
+
+export function functionUrl(name: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`;
+}
+
+// The user's access token; functions reject the public anon key
+export async function functionAuthHeader(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new Error('Your session has expired. Please sign in again.');
+  return `Bearer ${data.session.access_token}`;
+}
+
+// POSTs JSON to a function and returns its JSON reply, throwing the function's error message on failure
+export async function invokeFunction<T>(name: string, body: unknown): Promise<T> {
+  const response = await fetch(functionUrl(name), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: await functionAuthHeader(),
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Request failed: ${response.status}`);
+  return data as T;
+}
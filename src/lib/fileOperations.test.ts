@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FileOperation,
+  applyFileOperations,
+  hasFileOperationTags,
+  parseFileOperations,
+  parseMessageSegments,
+} from './fileOperations';
+
+const REPLY = [
+  "I'll add a button.",
+  '<file path="src/components/Button.tsx" action="create">',
+  'export const Button = () => <button>Go</button>;',
+  '</file>',
+  'And wire it up:',
+  '<file path="src/App.tsx">',
+  "import { Button } from './components/Button';",
+  '</file>',
+  'Done.',
+].join('\n');
+
+describe('parseMessageSegments', () => {
+  it('splits a reply into prose and file operations, in order', () => {
+    const segments = parseMessageSegments(REPLY);
+    expect(segments.map(s => s.type)).toEqual(['text', 'operation', 'text', 'operation', 'text']);
+    expect(segments[1]).toEqual({
+      type: 'operation',
+      operation: {
+        type: 'create',
+        path: 'src/components/Button.tsx',
+        language: 'typescript',
+        content: 'export const Button = () => <button>Go</button>;',
+      },
+      complete: true,
+    });
+    expect(segments[3]).toMatchObject({ operation: { type: 'update', path: 'src/App.tsx' }, complete: true });
+  });
+
+  it('marks the block still being streamed as incomplete', () => {
+    const partial = REPLY.slice(0, REPLY.indexOf('</file>', REPLY.indexOf('src/App.tsx')));
+    const segments = parseMessageSegments(partial);
+    const operations = segments.filter(s => s.type === 'operation');
+    expect(operations.map(s => s.complete)).toEqual([true, false]);
+    expect(operations[1]).toMatchObject({ operation: { path: 'src/App.tsx' } });
+  });
+
+  it('keeps every prefix of a streamed reply parseable', () => {
+    for (let end = 0; end <= REPLY.length; end += 7) {
+      const segments = parseMessageSegments(REPLY.slice(0, end));
+      const incomplete = segments.filter(s => s.type === 'operation' && !s.complete);
+      expect(incomplete.length).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('leaves an opening tag that has not fully arrived as text', () => {
+    expect(parseMessageSegments('Updating <file path="src/Ap')).toEqual([
+      { type: 'text', content: 'Updating <file path="src/Ap' },
+    ]);
+  });
+
+  it('counts a trailing unterminated block as complete once the reply is final', () => {
+    const content = '<file path="src/App.tsx">\nexport default 1;';
+    expect(parseMessageSegments(content)[0]).toMatchObject({ complete: false });
+    expect(parseMessageSegments(content, { final: true })[0]).toMatchObject({ complete: true });
+  });
+});
+
+describe('parseFileOperations', () => {
+  it('reads delete and rename actions', () => {
+    const content = [
+      '<file path="src/old.ts" action="delete" />',
+      '<file path="src/a.ts" action="rename" to="src/b.ts" />',
+      '<file path="src/c.ts" action="move" to="lib/c.ts"/>',
+    ].join('\n');
+    expect(parseFileOperations(content)).toEqual<FileOperation[]>([
+      { type: 'delete', path: 'src/old.ts' },
+      { type: 'rename', path: 'src/a.ts', to: 'src/b.ts' },
+      { type: 'rename', path: 'src/c.ts', to: 'lib/c.ts' },
+    ]);
+  });
+
+  it('drops a fence the model wrapped the file body in', () => {
+    const content = '<file path="src/a.ts">\n```ts\nexport const a = 1;\n```\n</file>';
+    expect(parseFileOperations(content)).toMatchObject([{ content: 'export const a = 1;' }]);
+  });
+
+  it('keeps file content that contains a literal closing tag', () => {
+    const body = 'const xml = "<file>x</file>";\nexport default xml;';
+    const content = `<file path="src/xml.ts">\n${body}\n</file>\nThat's it.\n<file path="src/old.ts" action="delete" />`;
+    expect(parseFileOperations(content)).toEqual<FileOperation[]>([
+      { type: 'update', path: 'src/xml.ts', language: 'typescript', content: body },
+      { type: 'delete', path: 'src/old.ts' },
+    ]);
+  });
+
+  it('ends a block missing its closing tag at the next one', () => {
+    const content = '<file path="src/a.ts">\nexport const a = 1;\n<file path="src/b.ts">\nexport const b = 2;\n</file>';
+    expect(parseFileOperations(content).map(op => 'content' in op && op.content)).toEqual([
+      'export const a = 1;',
+      'export const b = 2;',
+    ]);
+  });
+
+  it('applies a trailing unterminated block unless the reply was cut off', () => {
+    const content = 'Here:\n<file path="src/App.tsx">\nexport default 1;';
+    expect(parseFileOperations(content)).toMatchObject([{ path: 'src/App.tsx', content: 'export default 1;' }]);
+    expect(parseFileOperations(content, { final: false })).toEqual([]);
+  });
+
+  it('skips operations on paths outside the project', () => {
+    const content = [
+      '<file path="../outside.ts">x</file>',
+      '<file path="/etc/hosts">x</file>',
+      '<file path="src/a.ts" action="rename" to="../../a.ts" />',
+      '<file path="./src/../src/ok.ts">ok</file>',
+    ].join('\n');
+    expect(parseFileOperations(content)).toEqual<FileOperation[]>([
+      { type: 'update', path: 'src/ok.ts', language: 'typescript', content: 'ok' },
+    ]);
+  });
+
+  it('falls back to fenced code blocks for legacy messages', () => {
+    const content = 'Create `src/App.tsx`:\n```tsx\nexport default function App() {}\n```';
+    expect(parseFileOperations(content)).toEqual([]);
+    expect(parseFileOperations(content, { legacy: true })).toEqual<FileOperation[]>([
+      { type: 'update', path: 'src/App.tsx', language: 'typescript', content: 'export default function App() {}' },
+    ]);
+  });
+
+  it('prefers tags over fenced blocks in legacy messages that have them', () => {
+    const content = '```tsx\n// src/Old.tsx\nold\n```\n<file path="src/New.tsx">new</file>';
+    expect(hasFileOperationTags(content)).toBe(true);
+    expect(parseFileOperations(content, { legacy: true })).toMatchObject([{ path: 'src/New.tsx' }]);
+  });
+});
+
+describe('applyFileOperations', () => {
+  it('creates, updates, renames and deletes files', () => {
+    const files = [
+      { name: 'src/App.tsx', language: 'typescript', content: 'old' },
+      { name: 'src/a.ts', language: 'typescript', content: 'a' },
+      { name: 'src/gone.ts', language: 'typescript', content: 'gone' },
+    ];
+    const result = applyFileOperations(files, [
+      { type: 'update', path: 'src/App.tsx', language: 'typescript', content: 'new' },
+      { type: 'rename', path: 'src/a.ts', to: 'src/a.css' },
+      { type: 'delete', path: 'src/gone.ts' },
+      { type: 'create', path: 'README.md', language: 'markdown', content: '# Hi' },
+    ]);
+    expect(result).toEqual([
+      { name: 'src/App.tsx', language: 'typescript', content: 'new' },
+      { name: 'src/a.css', language: 'css', content: 'a' },
+      { name: 'README.md', language: 'markdown', content: '# Hi' },
+    ]);
+  });
+
+  it('ignores renames and deletes of files that do not exist', () => {
+    const files = [{ name: 'src/App.tsx', language: 'typescript', content: 'x' }];
+    expect(applyFileOperations(files, [
+      { type: 'rename', path: 'src/missing.ts', to: 'src/other.ts' },
+      { type: 'delete', path: 'src/missing.ts' },
+    ])).toEqual(files);
+  });
+});
@@ -0,0 +1,176 @@
+// File-operation protocol between the chat function and the client.
+// The system prompt asks the model to emit tagged blocks such as:
+//   <file path="src/App.tsx" action="create">...</file>
+//   <file path="src/old.ts" action="delete" />
+//   <file path="src/a.ts" action="rename" to="src/b.ts" />
+import { Message } from '@/hooks/useChat';
+import { CodeFile } from '@/components/code/CodePreview';
+import { extractCodeBlocks, getLanguageFromPath } from './codeExtractor';
+import { toProjectPath } from './paths';
+
+export type FileOperation =
+  | { type: 'create' | 'update'; path: string; language: string; content: string }
+  | { type: 'delete'; path: string }
+  | { type: 'rename'; path: string; to: string };
+
+export type MessageSegment =
+  | { type: 'text'; content: string }
+  | { type: 'operation'; operation: FileOperation; complete: boolean };
+
+// Opening tags only: where a block ends is worked out by scanFileBlocks
+const OPEN_TAG_REGEX = /<file\s+([^>]*?)\s*(\/?)>/g;
+const CLOSE_TAG = '</file>';
+const ATTRIBUTE_REGEX = /([a-zA-Z_-]+)\s*=\s*"([^"]*)"/g;
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  let match;
+  ATTRIBUTE_REGEX.lastIndex = 0;
+  while ((match = ATTRIBUTE_REGEX.exec(raw)) !== null) {
+    attributes[match[1].toLowerCase()] = match[2];
+  }
+  return attributes;
+}
+
+// Models sometimes wrap the file body in a fence anyway; drop it
+function unwrapFence(body: string): string {
+  const fenced = body.trim().match(/^```[\w-]*\s*\n([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1] : body.replace(/^\n/, '').replace(/\n\s*$/, '');
+}
+
+function toOperation(rawAttributes: string, body: string | undefined): FileOperation | null {
+  const attributes = parseAttributes(rawAttributes);
+  const path = attributes.path ? toProjectPath(attributes.path) : null;
+  if (!path) return null;
+
+  const action = (attributes.action || 'update').toLowerCase();
+  if (action === 'delete') {
+    return { type: 'delete', path };
+  }
+  if (action === 'rename' || action === 'move') {
+    const to = attributes.to ? toProjectPath(attributes.to) : null;
+    return to ? { type: 'rename', path, to } : null;
+  }
+
+  return {
+    type: action === 'create' ? 'create' : 'update',
+    path,
+    language: getLanguageFromPath(path),
+    content: unwrapFence(body ?? ''),
+  };
+}
+
+interface FileBlock {
+  start: number;
+  end: number;
+  attributes: string;
+  body?: string;
+  complete: boolean;
+}
+
+// A block's body runs to the last </file> before the next opening tag, so file
+// content that itself contains "</file>" stays whole. A block with no closing tag is
+// ended by the next one; a trailing one is only complete once the message is final.
+function scanFileBlocks(content: string, final: boolean): FileBlock[] {
+  const opens = Array.from(content.matchAll(OPEN_TAG_REGEX));
+  return opens.map((open, i) => {
+    const start = open.index!;
+    const bodyStart = start + open[0].length;
+    if (open[2] === '/') return { start, end: bodyStart, attributes: open[1], complete: true };
+
+    const next = opens[i + 1]?.index;
+    const limit = next ?? content.length;
+    const close = content.lastIndexOf(CLOSE_TAG, limit - CLOSE_TAG.length);
+    if (close >= bodyStart) {
+      return { start, end: close + CLOSE_TAG.length, attributes: open[1], body: content.slice(bodyStart, close), complete: true };
+    }
+    return { start, end: limit, attributes: open[1], body: content.slice(bodyStart, limit), complete: next !== undefined || final };
+  });
+}
+
+export function hasFileOperationTags(content: string): boolean {
+  return content.search(OPEN_TAG_REGEX) !== -1;
+}
+
+// Splits a message into prose and file operations, in order. While a reply streams
+// its trailing block is incomplete; pass `final` once the reply finished normally.
+export function parseMessageSegments(content: string, { final = false }: { final?: boolean } = {}): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  let lastIndex = 0;
+
+  for (const block of scanFileBlocks(content, final)) {
+    if (block.start > lastIndex) {
+      segments.push({ type: 'text', content: content.slice(lastIndex, block.start) });
+    }
+
+    const operation = toOperation(block.attributes, block.body);
+    if (operation) {
+      segments.push({ type: 'operation', operation, complete: block.complete });
+    }
+    lastIndex = block.end;
+  }
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', content: content.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+// Parses a finished assistant message into file operations. A last block the model
+// never closed still counts, unless the reply was cut off (`final: false`) and the
+// file is likely half-written. Messages written before the protocol existed
+// (`legacy`) fall back to the fenced code block heuristic.
+export function parseFileOperations(
+  content: string,
+  { legacy = false, final = true }: { legacy?: boolean; final?: boolean } = {}
+): FileOperation[] {
+  if (legacy && !hasFileOperationTags(content)) {
+    return extractCodeBlocks([{ id: 'legacy', role: 'assistant', content }]).map(file => ({
+      type: 'update',
+      path: file.name,
+      language: file.language,
+      content: file.content,
+    }));
+  }
+
+  return parseMessageSegments(content, { final })
+    .filter((s): s is Extract<MessageSegment, { type: 'operation' }> => s.type === 'operation' && s.complete)
+    .map(s => s.operation);
+}
+
+export function applyFileOperations(files: CodeFile[], operations: FileOperation[]): CodeFile[] {
+  const next = new Map(files.map(f => [f.name, f]));
+
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'create':
+      case 'update':
+        next.set(operation.path, { name: operation.path, language: operation.language, content: operation.content });
+        break;
+      case 'delete':
+        next.delete(operation.path);
+        break;
+      case 'rename': {
+        const existing = next.get(operation.path);
+        if (existing) {
+          next.delete(operation.path);
+          next.set(operation.to, { ...existing, name: operation.to, language: getLanguageFromPath(operation.to) });
+        }
+        break;
+      }
+    }
+  }
+
+  return Array.from(next.values());
+}
+
+// Replays every assistant message's operations to rebuild a file set
+export function replayFileOperations(messages: Message[], initial: CodeFile[] = []): CodeFile[] {
+  return messages
+    .filter(m => m.role === 'assistant')
+    .reduce((files, message) => applyFileOperations(
+      files,
+      parseFileOperations(message.content, { legacy: message.legacyCodeBlocks, final: !message.status || message.status === 'complete' })
+    ), initial);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { CodeFile } from '@/components/code/CodePreview';
+import { FileOperation, applyFileOperations } from './fileOperations';
+import { getLanguageFromPath } from './codeExtractor';
+import {
+  createOperations,
+  deleteOperations,
+  invertOperations,
+  moveOperations,
+  renameOperations,
+} from './fileTreeEdits';
+
+function file(name: string, content = `// ${name}`): CodeFile {
+  return { name, language: getLanguageFromPath(name), content };
+}
+
+const FILES: CodeFile[] = [
+  file('index.html', '<div id="root"></div>'),
+  file('src/App.tsx'),
+  file('src/components/Header.tsx'),
+  file('src/components/forms/Input.tsx'),
+  file('src/components/forms/styles.css', '.input {}'),
+  file('src/lib/utils.ts'),
+  file('src/empty/.gitkeep', ''),
+];
+
+const byName = (files: CodeFile[]) => [...files].sort((a, b) => a.name.localeCompare(b.name));
+
+// Applies the operations, then their inverse, and returns both results
+function roundTrip(files: CodeFile[], operations: FileOperation[]) {
+  const inverse = invertOperations(files, operations);
+  const changed = applyFileOperations(files, operations);
+  return { changed, restored: applyFileOperations(changed, inverse) };
+}
+
+describe('invertOperations', () => {
+  it('undoes renaming a folder with nested folders in it', () => {
+    const { changed, restored } = roundTrip(FILES, renameOperations(FILES, 'src/components', 'src/ui'));
+    expect(changed.map(f => f.name)).toContain('src/ui/forms/Input.tsx');
+    expect(changed.some(f => f.name.startsWith('src/components/'))).toBe(false);
+    expect(byName(restored)).toEqual(byName(FILES));
+  });
+
+  it('undoes moving a file into a folder that only held a placeholder', () => {
+    const operations = moveOperations(FILES, 'src/lib/utils.ts', 'src/empty');
+    const { changed, restored } = roundTrip(FILES, operations);
+    expect(changed.map(f => f.name)).toContain('src/empty/utils.ts');
+    expect(changed.map(f => f.name)).not.toContain('src/empty/.gitkeep');
+    expect(byName(restored)).toEqual(byName(FILES));
+  });
+
+  it('undoes moving a folder into another one', () => {
+    const { restored } = roundTrip(FILES, moveOperations(FILES, 'src/components/forms', 'src/lib'));
+    expect(byName(restored)).toEqual(byName(FILES));
+  });
+
+  it('undoes deleting a folder and everything in it', () => {
+    const { changed, restored } = roundTrip(FILES, deleteOperations(FILES, 'src/components'));
+    expect(changed.map(f => f.name)).toEqual(['index.html', 'src/App.tsx', 'src/lib/utils.ts', 'src/empty/.gitkeep']);
+    expect(byName(restored)).toEqual(byName(FILES));
+  });
+
+  it('undoes creating files and folders', () => {
+    const created = [
+      ...createOperations(FILES, 'src/empty/New.tsx', 'file'),
+      ...createOperations(FILES, 'src/pages', 'folder'),
+    ];
+    const { changed, restored } = roundTrip(FILES, created);
+    expect(changed.map(f => f.name)).toEqual(expect.arrayContaining(['src/empty/New.tsx', 'src/pages/.gitkeep']));
+    expect(byName(restored)).toEqual(byName(FILES));
+  });
+
+  it('brings back contents that updates and renames overwrote', () => {
+    const operations: FileOperation[] = [
+      { type: 'update', path: 'src/App.tsx', language: 'typescript', content: 'changed' },
+      { type: 'rename', path: 'src/lib/utils.ts', to: 'src/App.tsx' },
+      { type: 'delete', path: 'index.html' },
+      { type: 'create', path: 'index.html', language: 'html', content: 'new' },
+    ];
+    const { changed, restored } = roundTrip(FILES, operations);
+    expect(changed.find(f => f.name === 'src/App.tsx')?.content).toBe('// src/lib/utils.ts');
+    expect(byName(restored)).toEqual(byName(FILES));
+  });
+
+  it('skips operations on files that do not exist', () => {
+    const operations: FileOperation[] = [
+      { type: 'rename', path: 'src/missing.ts', to: 'src/other.ts' },
+      { type: 'delete', path: 'src/missing.ts' },
+    ];
+    expect(invertOperations(FILES, operations)).toEqual([]);
+  });
+});
+
+describe('file tree edits', () => {
+  it('rejects names that are taken or invalid', () => {
+    expect(() => createOperations(FILES, 'src/App.tsx', 'file')).toThrow('src/App.tsx already exists');
+    expect(() => createOperations(FILES, 'src/components', 'file')).toThrow('A folder named src/components already exists');
+    expect(() => createOperations(FILES, 'src/a?.tsx', 'file')).toThrow("aren't allowed");
+    expect(() => renameOperations(FILES, 'src/App.tsx', 'index.html')).toThrow('index.html already exists');
+    expect(() => renameOperations(FILES, 'src/components', 'src/components/forms/x')).toThrow('into itself');
+  });
+});
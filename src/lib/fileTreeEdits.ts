@@ -0,0 +1,121 @@
+// Manual edits from the file explorer, expressed as the same file operations the
+// model emits so they go through one code path. Folders only exist through the
+// files in them; an empty folder is kept alive by a placeholder file.
+import { CodeFile } from '@/components/code/CodePreview';
+import { FileOperation } from './fileOperations';
+import { getLanguageFromPath } from './codeExtractor';
+import { basename, dirname, joinPath, normalizePath } from './paths';
+
+export const FOLDER_PLACEHOLDER = '.gitkeep';
+
+export function isFolderPlaceholder(path: string): boolean {
+  return basename(path) === FOLDER_PLACEHOLDER;
+}
+
+function isInside(path: string, folder: string): boolean {
+  return path.startsWith(`${folder}/`);
+}
+
+function validatePath(raw: string): string {
+  const path = normalizePath(raw);
+  if (!path) throw new Error('Enter a name');
+  if (path.split('/').some(segment => /[<>:"|?*]/.test(segment))) {
+    throw new Error(`"${path}" contains characters that aren't allowed in file names`);
+  }
+  return path;
+}
+
+// The placeholder of a folder that is about to get a real file, if it has one
+function placeholderFor(files: CodeFile[], path: string): FileOperation[] {
+  const folder = dirname(path);
+  const placeholder = folder ? `${folder}/${FOLDER_PLACEHOLDER}` : '';
+  return placeholder && placeholder !== path && files.some(f => f.name === placeholder)
+    ? [{ type: 'delete', path: placeholder }]
+    : [];
+}
+
+export function createOperations(files: CodeFile[], rawPath: string, type: 'file' | 'folder'): FileOperation[] {
+  const path = validatePath(rawPath);
+  if (files.some(f => f.name === path)) throw new Error(`${path} already exists`);
+  if (files.some(f => isInside(f.name, path))) {
+    throw new Error(type === 'file' ? `A folder named ${path} already exists` : `${path} already exists`);
+  }
+
+  const target = type === 'folder' ? `${path}/${FOLDER_PLACEHOLDER}` : path;
+  return [
+    ...placeholderFor(files, target),
+    { type: 'create', path: target, language: getLanguageFromPath(target), content: '' },
+  ];
+}
+
+// Deletes a file, or a folder with everything in it
+export function deleteOperations(files: CodeFile[], path: string): FileOperation[] {
+  return files
+    .filter(f => f.name === path || isInside(f.name, path))
+    .map(f => ({ type: 'delete', path: f.name }));
+}
+
+// Renames or moves a file or folder; moving into a folder is a rename to folder/name
+export function renameOperations(files: CodeFile[], from: string, rawTo: string): FileOperation[] {
+  const to = validatePath(rawTo);
+  if (to === from) return [];
+  if (isInside(to, from)) throw new Error(`Can't move ${from} into itself`);
+
+  const moved = files.filter(f => f.name === from || isInside(f.name, from));
+  if (moved.length === 0) throw new Error(`${from} no longer exists`);
+
+  const movedPaths = new Set(moved.map(f => f.name));
+  const operations: FileOperation[] = moved.map(f => ({
+    type: 'rename',
+    path: f.name,
+    to: f.name === from ? to : joinPath(to, f.name.slice(from.length + 1)),
+  }));
+  const conflict = operations.find(
+    op => op.type === 'rename' && files.some(f => f.name === op.to && !movedPaths.has(f.name))
+  );
+  if (conflict && conflict.type === 'rename') throw new Error(`${conflict.to} already exists`);
+
+  return [...placeholderFor(files, to), ...operations];
+}
+
+export function moveOperations(files: CodeFile[], path: string, folder: string): FileOperation[] {
+  return renameOperations(files, path, joinPath(folder, basename(path)));
+}
+
+// Operations that put the files back the way they were before `operations` ran
+export function invertOperations(files: CodeFile[], operations: FileOperation[]): FileOperation[] {
+  const state = new Map(files.map(f => [f.name, f]));
+  const inverse: FileOperation[] = [];
+  const restore = (path: string): FileOperation => {
+    const previous = state.get(path);
+    return previous
+      ? { type: 'create', path, language: previous.language, content: previous.content }
+      : { type: 'delete', path };
+  };
+
+  for (const operation of operations) {
+    switch (operation.type) {
+      case 'create':
+      case 'update':
+        inverse.unshift(restore(operation.path));
+        state.set(operation.path, { name: operation.path, language: operation.language, content: operation.content });
+        break;
+      case 'delete':
+        if (state.has(operation.path)) inverse.unshift(restore(operation.path));
+        state.delete(operation.path);
+        break;
+      case 'rename': {
+        const existing = state.get(operation.path);
+        if (!existing) break;
+        // Undo the move first, then bring back anything it overwrote
+        const overwritten = state.has(operation.to) ? [restore(operation.to)] : [];
+        inverse.unshift({ type: 'rename', path: operation.to, to: operation.path }, ...overwritten);
+        state.delete(operation.path);
+        state.set(operation.to, { ...existing, name: operation.to });
+        break;
+      }
+    }
+  }
+
+  return inverse;
+}
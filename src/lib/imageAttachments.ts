@@ -0,0 +1,86 @@
+// Prepares image attachments for vision models. Images are downscaled in the browser
+// so screenshots from large displays stay within every provider's size limits and
+// don't spend more tokens than the model can make use of.
+import type { ProviderImage } from '@shared/providers/index.ts';
+
+export const MAX_IMAGES_PER_MESSAGE = 4;
+// Larger files are rejected before decoding
+export const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+
+// Longest side after downscaling; providers resize anything larger themselves
+const MAX_DIMENSION = 1568;
+// Anthropic rejects images over 5 MB once base64-encoded
+const MAX_ENCODED_BYTES = 3.5 * 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+
+export interface PreparedImage extends ProviderImage {
+  width: number;
+  height: number;
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`${file.name} is not an image the browser can read`));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    );
+  });
+}
+
+async function toBase64(blob: Blob): Promise<string> {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+}
+
+// Scales the image to fit MAX_DIMENSION and re-encodes it: PNG keeps sharp text in
+// screenshots, and JPEG is the fallback when that is too big
+export async function prepareImage(file: File): Promise<PreparedImage> {
+  if (file.size > MAX_IMAGE_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_IMAGE_FILE_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const image = await loadImage(file);
+  let scale = Math.min(1, MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+
+  for (let attempt = 0; attempt < 4; attempt++) {
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Failed to process image');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    let mediaType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    let blob = await toBlob(canvas, mediaType, JPEG_QUALITY);
+    if (blob.size > MAX_ENCODED_BYTES && mediaType === 'image/png') {
+      // JPEG has no transparency, so flatten onto white first
+      context.globalCompositeOperation = 'destination-over';
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      mediaType = 'image/jpeg';
+      blob = await toBlob(canvas, mediaType, JPEG_QUALITY);
+    }
+    if (blob.size <= MAX_ENCODED_BYTES) {
+      return { mediaType, data: await toBase64(blob), width: canvas.width, height: canvas.height };
+    }
+    scale *= 0.7;
+  }
+
+  throw new Error(`${file.name} is too detailed to send, even after downscaling`);
+}
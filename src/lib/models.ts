@@ -1,96 +1,66 @@
 // Available AI models for Eternity Code
-import { getCustomApiModel, isCustomApiEnabled } from './customApiStorage';
+import { getCustomApiModels } from './customApiStorage';
+import {
+  BUILT_IN_MODELS as SHARED_BUILT_IN_MODELS,
+  BuiltInModel,
+  PROVIDERS,
+  ProviderId,
+  getProvider,
+} from '@shared/providers/index.ts';
 
 export interface AIModel {
   id: string;
   name: string;
-  provider: 'google' | 'openai' | 'anthropic' | 'custom';
+  provider: BuiltInModel['provider'] | ProviderId;
   description: string;
   speed: 'fast' | 'balanced' | 'slow';
   quality: 'standard' | 'high' | 'premium';
+  // Tokens the model can read: prompt, history and reply together
+  contextWindow: number;
+  // Whether image attachments are sent to the model rather than just their names
+  supportsVision: boolean;
   isCustom?: boolean;
+  // API profile serving a custom model
+  profileId?: string;
 }
 
-export const BUILT_IN_MODELS: AIModel[] = [
-  {
-    id: 'google/gemini-3-flash-preview',
-    name: 'Gemini 3 Flash',
-    provider: 'google',
-    description: 'Fast & efficient for most tasks',
-    speed: 'fast',
-    quality: 'high',
-  },
-  {
-    id: 'google/gemini-2.5-flash',
-    name: 'Gemini 2.5 Flash',
-    provider: 'google',
-    description: 'Balanced speed and reasoning',
-    speed: 'balanced',
-    quality: 'high',
-  },
-  {
-    id: 'google/gemini-2.5-pro',
-    name: 'Gemini 2.5 Pro',
-    provider: 'google',
-    description: 'Best for complex code generation',
-    speed: 'slow',
-    quality: 'premium',
-  },
-  {
-    id: 'google/gemini-3-pro-preview',
-    name: 'Gemini 3 Pro',
-    provider: 'google',
-    description: 'Next-gen complex reasoning',
-    speed: 'slow',
-    quality: 'premium',
-  },
-  {
-    id: 'openai/gpt-5-mini',
-    name: 'GPT-5 Mini',
-    provider: 'openai',
-    description: 'OpenAI balanced performance',
-    speed: 'balanced',
-    quality: 'high',
-  },
-  {
-    id: 'openai/gpt-5',
-    name: 'GPT-5',
-    provider: 'openai',
-    description: 'OpenAI premium reasoning',
-    speed: 'slow',
-    quality: 'premium',
-  },
-];
+// The built-in list lives with the provider adapters so the chat function validates against the same ids
+export const BUILT_IN_MODELS: AIModel[] = SHARED_BUILT_IN_MODELS;
 
-// Get all available models including custom API if enabled
+// Get all available models, with the models of every enabled custom API profile first
 export function getAvailableModels(): AIModel[] {
-  const models = [...BUILT_IN_MODELS];
-  
-  const customModel = getCustomApiModel();
-  if (customModel) {
-    // Add custom model at the top
-    models.unshift({
-      id: customModel.id,
-      name: `⚡ ${customModel.name}`,
-      provider: customModel.provider as AIModel['provider'],
-      description: 'Your custom API',
+  const customModels: AIModel[] = getCustomApiModels().map(model => {
+    // Providers don't report context sizes or capabilities, so custom models get their provider's typical ones
+    const adapter = getProvider(model.provider) ?? PROVIDERS.custom;
+    return {
+      id: model.id,
+      name: `⚡ ${model.name}`,
+      provider: model.provider,
+      description: model.profileName,
       speed: 'balanced',
       quality: 'premium',
+      contextWindow: adapter.contextWindow,
+      supportsVision: adapter.supportsVision,
       isCustom: true,
-    });
-  }
-  
-  return models;
+      profileId: model.profileId,
+    };
+  });
+
+  return [...customModels, ...BUILT_IN_MODELS];
 }
 
 export const AI_MODELS = BUILT_IN_MODELS; // For backwards compatibility
 
-export const DEFAULT_MODEL = 'google/gemini-3-flash-preview';
+export { DEFAULT_MODEL } from '@shared/providers/index.ts';
 
 export function getModelById(id: string): AIModel | undefined {
   return getAvailableModels().find(m => m.id === id);
 }
 
+export function getContextWindow(id: string): number {
+  return getModelById(id)?.contextWindow ?? PROVIDERS.custom.contextWindow;
+}
+
 // Check if a model ID is a custom API model
 export function isCustomModel(modelId: string): boolean {
   return modelId.startsWith('custom:');
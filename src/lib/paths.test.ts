@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { basename, dirname, getDisplayNames, joinPath, normalizePath, toProjectPath } from './paths';
+
+describe('normalizePath', () => {
+  it('uses forward slashes without leading, trailing or repeated separators', () => {
+    expect(normalizePath(' ./src\\components//Button.tsx/ ')).toBe('src/components/Button.tsx');
+  });
+
+  it('resolves ".." within the path', () => {
+    expect(normalizePath('src/pages/../components/Button.tsx')).toBe('src/components/Button.tsx');
+  });
+});
+
+describe('toProjectPath', () => {
+  it('accepts relative paths and normalizes them', () => {
+    expect(toProjectPath('./src/App.tsx')).toBe('src/App.tsx');
+    expect(toProjectPath('src/pages/../App.tsx')).toBe('src/App.tsx');
+  });
+
+  it('rejects paths that climb out of the project', () => {
+    expect(toProjectPath('../secrets.env')).toBeNull();
+    expect(toProjectPath('src/../../secrets.env')).toBeNull();
+    expect(toProjectPath('src\\..\\..\\secrets.env')).toBeNull();
+  });
+
+  it('rejects absolute paths', () => {
+    expect(toProjectPath('/etc/passwd')).toBeNull();
+    expect(toProjectPath('\\Windows\\system.ini')).toBeNull();
+    expect(toProjectPath('C:/Users/me/App.tsx')).toBeNull();
+  });
+
+  it('rejects paths that name no file', () => {
+    expect(toProjectPath('')).toBeNull();
+    expect(toProjectPath('src/..')).toBeNull();
+  });
+});
+
+describe('path parts', () => {
+  it('splits and joins paths', () => {
+    expect(basename('src/components/Button.tsx')).toBe('Button.tsx');
+    expect(dirname('src/components/Button.tsx')).toBe('src/components');
+    expect(dirname('App.tsx')).toBe('');
+    expect(joinPath('src', '', 'components/', 'Button.tsx')).toBe('src/components/Button.tsx');
+  });
+});
+
+describe('getDisplayNames', () => {
+  it('uses the shortest unique suffix of each path', () => {
+    const names = getDisplayNames(['src/pages/Button.tsx', 'src/components/Button.tsx', 'src/App.tsx']);
+    expect(names.get('src/pages/Button.tsx')).toBe('pages/Button.tsx');
+    expect(names.get('src/components/Button.tsx')).toBe('components/Button.tsx');
+    expect(names.get('src/App.tsx')).toBe('App.tsx');
+  });
+});
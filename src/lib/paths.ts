@@ -0,0 +1,69 @@
+// Path helpers for project files. Paths are always relative to the project
+// root, use forward slashes and never start with "./" or "/".
+
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+
+  for (const segment of path.trim().replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+
+  return segments.join('/');
+}
+
+// A path from outside the app (e.g. a model's file operation) as a project path, or
+// null if it is absolute or climbs out of the project with ".."
+export function toProjectPath(path: string): string | null {
+  const trimmed = path.trim().replace(/\\/g, '/');
+  if (trimmed.startsWith('/') || /^[a-zA-Z]:/.test(trimmed)) return null;
+
+  let depth = 0;
+  for (const segment of trimmed.split('/')) {
+    if (segment === '..') depth--;
+    else if (segment !== '' && segment !== '.') depth++;
+    if (depth < 0) return null;
+  }
+  return normalizePath(trimmed) || null;
+}
+
+export function basename(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+export function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+export function joinPath(...parts: string[]): string {
+  return normalizePath(parts.filter(Boolean).join('/'));
+}
+
+// Shortest trailing portion of each path that is unique within the set,
+// e.g. ["src/pages/Button.tsx", "src/components/Button.tsx"] → ["pages/Button.tsx", "components/Button.tsx"]
+export function getDisplayNames(paths: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+
+  for (const path of paths) {
+    const segments = path.split('/');
+    let depth = 1;
+    let candidate = basename(path);
+
+    while (
+      depth < segments.length &&
+      paths.some(other => other !== path && (other === candidate || other.endsWith(`/${candidate}`)))
+    ) {
+      depth++;
+      candidate = segments.slice(-depth).join('/');
+    }
+
+    names.set(path, candidate);
+  }
+
+  return names;
+}
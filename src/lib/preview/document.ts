@@ -0,0 +1,132 @@
+import { CodeFile } from '@/components/code/CodePreview';
+import { buildModuleGraph, BUILTIN_SPECIFIERS } from './moduleGraph';
+import { GLOBAL_MODULES, UI_MODULES, lucideModule } from './shims';
+import { PREVIEW_LOADER } from './loader';
+import { getVendorScripts } from './vendor';
+import { resolvePackages } from './packages';
+import { loadIconNodes } from './icons';
+
+// The reset sits in a cascade layer, which Tailwind's unlayered utilities always win over
+const BASE_STYLES = `
+    @layer base {
+      * { margin: 0; padding: 0; box-sizing: border-box; }
+      body {
+        font-family: system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        min-height: 100vh;
+        background: #ffffff;
+      }
+    }
+    #root { min-height: 100vh; }
+    .preview-error {
+      color: #ef4444;
+      padding: 20px;
+      font-family: system-ui;
+    }
+    .preview-error h3 { margin-bottom: 8px; }
+    .preview-error pre {
+      background: #fef2f2;
+      padding: 12px;
+      border-radius: 8px;
+      font-size: 12px;
+      overflow: auto;
+      white-space: pre-wrap;
+    }`;
+
+// JSON embedded in a <script> tag must not be able to close it
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+// Hand-written HTML/CSS/JS projects: serve the page as-is with styles and scripts inlined
+function buildStaticDocument(files: CodeFile[], html: string): string {
+  let document = html;
+  for (const css of files.filter(f => f.name.endsWith('.css'))) {
+    if (!document.includes(css.content)) {
+      document = document.replace('</head>', `<style>${css.content}</style></head>`);
+    }
+  }
+  for (const js of files.filter(f => f.name.endsWith('.js'))) {
+    if (!document.includes(js.content)) {
+      document = document.replace('</body>', `<script>${js.content}</script></body>`);
+    }
+  }
+  return document;
+}
+
+function buildStylesOnlyDocument(css: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>CSS Preview</title>
+  <style>${BASE_STYLES}
+    ${css}
+  </style>
+</head>
+<body>
+  <div class="preview-container"><h1>CSS Preview</h1><p>Your styles are applied.</p></div>
+  <script>window.parent.postMessage({ type: 'preview-ready' }, '*');</script>
+</body>
+</html>`;
+}
+
+// Builds the srcdoc for the preview iframe from the project's files.
+// Async because the lucide icons a project imports are loaded on demand.
+export async function buildPreviewDocument(files: CodeFile[]): Promise<string> {
+  const htmlFile = files.find(f => f.name.endsWith('.html'));
+  const hasComponents = files.some(f => /\.(tsx|jsx|ts)$/.test(f.name));
+  if (htmlFile?.content && !hasComponents) {
+    return buildStaticDocument(files, htmlFile.content);
+  }
+
+  const graph = buildModuleGraph(files);
+  if (!graph.entry) {
+    const css = files.filter(f => f.name.endsWith('.css')).map(f => f.content).join('\n');
+    return css ? buildStylesOnlyDocument(css) : '';
+  }
+
+  const shims: Record<string, string> = { ...GLOBAL_MODULES };
+  const iconNames = graph.externals['lucide-react'];
+  if (iconNames) {
+    shims['lucide-react'] = lucideModule(iconNames, await loadIconNodes(iconNames));
+  }
+  for (const specifier of BUILTIN_SPECIFIERS) {
+    if (graph.externals[specifier]) shims[specifier] = UI_MODULES[specifier];
+  }
+
+  // "react" and "react-dom" are generated by the loader from the UMD globals
+  const packages = resolvePackages(
+    Object.keys(graph.externals).filter(specifier =>
+      !shims[specifier] && !BUILTIN_SPECIFIERS.includes(specifier) && specifier !== 'react' && specifier !== 'react-dom'
+    ),
+    files
+  );
+
+  const manifest = {
+    entry: graph.entry,
+    modules: graph.modules,
+    globalStyles: graph.globalStyles,
+    unresolved: graph.unresolved,
+    shims,
+    packages: packages.urls,
+    unsupported: packages.unsupported,
+  };
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Preview</title>
+  ${getVendorScripts().map(src => `<script src="${src}"></script>`).join('\n  ')}
+  <style>${BASE_STYLES}
+  </style>
+</head>
+<body>
+  <div id="root"></div>
+  <script type="application/json" id="preview-manifest">${toScriptJson(manifest)}</script>
+  <script>${PREVIEW_LOADER}</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,85 @@
+// Lucide icon data for the preview, read from the installed lucide-react package.
+// Each icon file is its own lazy chunk, so only the icons a project imports are
+// fetched; the export index (icon names and their aliases) is loaded once.
+
+export type IconNode = [string, Record<string, string | number>][];
+
+const ICON_SOURCES = import.meta.glob<string>('/node_modules/lucide-react/dist/esm/icons/*.js', {
+  query: '?raw',
+  import: 'default',
+});
+
+const ICON_PATH_PREFIX = '/node_modules/lucide-react/dist/esm/icons/';
+
+// `export { default as Home, default as HomeIcon, ... } from './icons/house.js';`
+const EXPORT_LINE = /export \{([^}]+)\} from '\.\/icons\/([\w-]+)\.js'/g;
+const ICON_CALL = /createLucideIcon\(\s*"[^"]+",\s*(\[[\s\S]*\])\s*\);/;
+// Renamed icons keep a file that re-exports the new one
+const REEXPORT = /export \{ default \} from '\.\/([\w-]+)\.js'/;
+
+let iconIndex: Promise<Map<string, string>> | null = null;
+const nodeCache = new Map<string, Promise<IconNode | null>>();
+
+// Maps every exported name (House, Home, HomeIcon, LucideHome) to its icon file
+function loadIconIndex(): Promise<Map<string, string>> {
+  if (!iconIndex) {
+    iconIndex = import('/node_modules/lucide-react/dist/esm/lucide-react.js?raw').then(({ default: source }) => {
+      const index = new Map<string, string>();
+      for (const [, names, file] of source.matchAll(EXPORT_LINE)) {
+        for (const name of names.split(',')) {
+          const alias = name.trim().replace(/^default as /, '');
+          if (alias) index.set(alias, file);
+        }
+      }
+      return index;
+    });
+    iconIndex.catch(() => {
+      iconIndex = null;
+    });
+  }
+  return iconIndex;
+}
+
+// The icon node is a plain array literal with unquoted keys; quote them and read it as JSON
+function parseIconNode(source: string): IconNode | null {
+  const match = source.match(ICON_CALL);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1].replace(/([{,]\s*)([A-Za-z_][\w-]*)\s*:/g, '$1"$2":'));
+  } catch {
+    return null;
+  }
+}
+
+function loadIconFile(file: string): Promise<IconNode | null> {
+  let node = nodeCache.get(file);
+  if (!node) {
+    const load = ICON_SOURCES[`${ICON_PATH_PREFIX}${file}.js`];
+    node = load
+      ? load().then(source => {
+          const renamed = source.match(REEXPORT);
+          return renamed ? loadIconFile(renamed[1]) : parseIconNode(source);
+        }, () => null)
+      : Promise.resolve(null);
+    nodeCache.set(file, node);
+  }
+  return node;
+}
+
+// Icon nodes for the given export names; unknown names are left out
+export async function loadIconNodes(names: string[]): Promise<Record<string, IconNode>> {
+  if (names.length === 0) return {};
+  const index = await loadIconIndex();
+  const entries = await Promise.all(
+    names.map(async name => {
+      const file = index.get(name);
+      return [name, file ? await loadIconFile(file) : null] as const;
+    })
+  );
+
+  const nodes: Record<string, IconNode> = {};
+  for (const [name, node] of entries) {
+    if (node) nodes[name] = node;
+  }
+  return nodes;
+}
@@ -0,0 +1,12 @@
+export { buildPreviewDocument } from './document';
+export { buildModuleGraph, moduleId } from './moduleGraph';
+export { createPreviewAPI, mountPreview, openPreviewInNewTab } from './runtime';
+export type { ModuleGraph, PreviewModule, PreviewModuleKind, UnresolvedImport } from './moduleGraph';
+export type { ConsoleLevel, PreviewAPI, PreviewEvent, PreviewListener, PreviewState } from './runtime';
+export {
+  DEFAULT_PACKAGE_URL_TEMPLATE,
+  clearPackageSourceConfig,
+  getPackageSourceConfig,
+  setPackageSourceConfig,
+} from './packages';
+export type { PackageSourceConfig } from './packages';
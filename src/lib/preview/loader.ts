@@ -0,0 +1,225 @@
+// Classic script that runs first inside the preview iframe. It transpiles every
+// project module with Babel, turns each into a blob URL, publishes an import map
+// for them, then imports the entry and renders its default export.
+//
+// Messages posted to the parent window:
+//   { type: 'preview-ready' }
+//   { type: 'preview-error', error, file?, stack?, packages? }
+//   { type: 'preview-console', level, args, stack? }
+//   { type: 'preview-network', id, method, url, status?, error?, duration? }
+//
+// Stack traces have module blob URLs replaced by project paths, and Babel keeps
+// line numbers, so "src/App.tsx:12:5" points at the file as written.
+export const PREVIEW_LOADER = `(function () {
+  var manifest = JSON.parse(document.getElementById('preview-manifest').textContent);
+  var IDENTIFIER = /^[A-Za-z_$][\\w$]*$/;
+  var blobPaths = {};
+
+  function post(message) {
+    window.parent.postMessage(message, '*');
+  }
+
+  function mapStack(stack) {
+    if (!stack) return stack;
+    return Object.keys(blobPaths).reduce(function (mapped, url) {
+      return mapped.split(url).join(blobPaths[url]);
+    }, String(stack));
+  }
+
+  function serialize(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.message;
+    try {
+      return JSON.stringify(value) || String(value);
+    } catch (error) {
+      return String(value);
+    }
+  }
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      var thrown = args.filter(function (arg) { return arg instanceof Error; })[0];
+      // Errors and warnings carry a trace: the logged error's own, or where they were logged from
+      var stack = thrown ? thrown.stack : (level === 'error' || level === 'warn') ? new Error().stack : undefined;
+      if (stack && !thrown) stack = stack.split('\\n').slice(2).join('\\n');
+      post({ type: 'preview-console', level: level, args: args.map(serialize), stack: mapStack(stack) });
+      original.apply(console, args);
+    };
+  });
+
+  var requestCount = 0;
+
+  function trackRequest(method, url) {
+    var id = ++requestCount;
+    var started = Date.now();
+    post({ type: 'preview-network', id: id, method: String(method || 'GET').toUpperCase(), url: String(url) });
+    return function (status, error) {
+      post({
+        type: 'preview-network', id: id, method: String(method || 'GET').toUpperCase(), url: String(url),
+        status: status, error: error, duration: Date.now() - started,
+      });
+    };
+  }
+
+  var originalFetch = window.fetch;
+  window.fetch = function (input, init) {
+    var method = (init && init.method) || (input && input.method) || 'GET';
+    var done = trackRequest(method, input && input.url ? input.url : input);
+    return originalFetch.apply(this, arguments).then(function (response) {
+      done(response.status);
+      return response;
+    }, function (error) {
+      done(undefined, error && error.message ? error.message : String(error));
+      throw error;
+    });
+  };
+
+  var originalOpen = XMLHttpRequest.prototype.open;
+  var originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function (method, url) {
+    this.__previewRequest = { method: method, url: url };
+    return originalOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function () {
+    var request = this.__previewRequest;
+    if (request) {
+      var done = trackRequest(request.method, request.url);
+      var xhr = this;
+      xhr.addEventListener('loadend', function () {
+        done(xhr.status || undefined, xhr.status ? undefined : 'Network request failed');
+      });
+    }
+    return originalSend.apply(this, arguments);
+  };
+
+  function showError(title, message) {
+    var root = document.getElementById('root');
+    if (!root) return;
+    var box = document.createElement('div');
+    var heading = document.createElement('h3');
+    var details = document.createElement('pre');
+    box.className = 'preview-error';
+    heading.textContent = '⚠️ ' + title;
+    details.textContent = message;
+    box.appendChild(heading);
+    box.appendChild(details);
+    root.innerHTML = '';
+    root.appendChild(box);
+  }
+
+  function fail(title, error, file) {
+    var message = error && error.message ? error.message : String(error);
+    post({ type: 'preview-error', error: message, file: file, stack: mapStack(error && error.stack) });
+    showError(title, message);
+  }
+
+  // Errors thrown after the first render (effects, event handlers) are reported but leave the page alone
+  window.addEventListener('error', function (event) {
+    var error = event.error || {};
+    post({ type: 'preview-error', error: error.message || event.message, stack: mapStack(error.stack) });
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason || {};
+    post({ type: 'preview-error', error: reason.message || String(event.reason), stack: mapStack(reason.stack) });
+  });
+
+  if (manifest.unsupported.length > 0) {
+    var message = 'Unsupported package' + (manifest.unsupported.length > 1 ? 's' : '') + ': ' + manifest.unsupported.join(', ') +
+      '. These imports cannot run in the preview.';
+    post({ type: 'preview-error', error: message, packages: manifest.unsupported });
+    showError('Unsupported Package', message);
+    return;
+  }
+
+  if (manifest.unresolved.length > 0) {
+    var missing = manifest.unresolved[0];
+    fail('Module Not Found', new Error('Cannot resolve "' + missing.specifier + '" from ' + missing.importer), missing.importer);
+    return;
+  }
+
+  function toUrl(code) {
+    return URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+  }
+
+  function reexportGlobal(name) {
+    var names = Object.keys(window[name]).filter(function (key) {
+      return key !== 'default' && IDENTIFIER.test(key);
+    });
+    return 'const mod = window.' + name + ';\\nexport default mod;\\nexport const { ' + names.join(', ') + ' } = mod;';
+  }
+
+  var imports = {
+    react: toUrl(reexportGlobal('React')),
+    'react-dom': toUrl(reexportGlobal('ReactDOM')),
+  };
+  Object.keys(manifest.shims).forEach(function (specifier) {
+    imports[specifier] = toUrl(manifest.shims[specifier]);
+  });
+  Object.keys(manifest.packages).forEach(function (specifier) {
+    imports[specifier] = manifest.packages[specifier];
+  });
+
+  // A package that fails to load is reported by name instead of as a bare fetch error.
+  // Browsers name the module that started the import rather than the package, so each
+  // package is imported again by its specifier; failed loads are cached and reject at once.
+  function findFailedPackages() {
+    return Promise.all(Object.keys(manifest.packages).map(function (specifier) {
+      return import(specifier).then(function () { return null; }, function () { return specifier; });
+    })).then(function (results) {
+      return results.filter(Boolean);
+    });
+  }
+
+  for (var i = 0; i < manifest.modules.length; i++) {
+    var mod = manifest.modules[i];
+    var code = mod.code;
+    if (mod.kind === 'script') {
+      try {
+        code = Babel.transform(code, {
+          filename: mod.path,
+          sourceType: 'module',
+          retainLines: true,
+          presets: [
+            ['typescript', { isTSX: !/\\.ts$/.test(mod.path), allExtensions: true }],
+            ['react', { runtime: 'automatic' }],
+          ],
+        }).code;
+      } catch (error) {
+        fail('Syntax Error in ' + mod.path, error, mod.path);
+        return;
+      }
+    }
+    imports[mod.id] = toUrl(code + '\\n//# sourceURL=' + mod.path);
+    blobPaths[imports[mod.id]] = mod.path;
+  }
+
+  var importMap = document.createElement('script');
+  importMap.type = 'importmap';
+  importMap.textContent = JSON.stringify({ imports: imports });
+  document.head.appendChild(importMap);
+
+  Promise.all(manifest.globalStyles.map(function (id) { return import(id); }))
+    .then(function () { return manifest.entry ? import(manifest.entry) : null; })
+    .then(function (entry) {
+      // Self-mounting entries (main.tsx) have no default export and render themselves
+      if (entry && typeof entry.default === 'function') {
+        return import('react-dom/client').then(function (client) {
+          client.createRoot(document.getElementById('root')).render(window.React.createElement(entry.default));
+        });
+      }
+    })
+    .then(function () { post({ type: 'preview-ready' }); })
+    .catch(function (error) {
+      return findFailedPackages().then(function (failed) {
+        if (failed.length === 0) {
+          fail('Render Error', error);
+          return;
+        }
+        var message = 'Could not load package "' + failed[0] + '" from ' + manifest.packages[failed[0]];
+        post({ type: 'preview-error', error: message, packages: failed });
+        showError('Package Error', message);
+      });
+    });
+})();`;
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { CodeFile } from '@/components/code/CodePreview';
+import { buildModuleGraph, moduleId } from './moduleGraph';
+
+function file(name: string, content: string): CodeFile {
+  return { name, language: 'typescript', content };
+}
+
+function codeOf(graph: ReturnType<typeof buildModuleGraph>, path: string): string {
+  const module = graph.modules.find(m => m.path === path);
+  if (!module) throw new Error(`No module for ${path}`);
+  return module.code;
+}
+
+describe('buildModuleGraph', () => {
+  it('rewrites relative and extensionless imports to module ids', () => {
+    const graph = buildModuleGraph([
+      file('src/App.tsx', "import Header from './components/Header';\nimport { api } from '../lib/api.ts';\nexport default function App() { return <Header />; }"),
+      file('src/components/Header.tsx', "import { title } from '../config';\nexport default () => <h1>{title}</h1>;"),
+      file('src/config.ts', "export const title = 'Hi';"),
+      file('lib/api.ts', 'export const api = {};'),
+    ]);
+
+    expect(graph.entry).toBe(moduleId('src/App.tsx'));
+    expect(codeOf(graph, 'src/App.tsx')).toContain(`from '${moduleId('src/components/Header.tsx')}'`);
+    expect(codeOf(graph, 'src/App.tsx')).toContain(`from '${moduleId('lib/api.ts')}'`);
+    expect(codeOf(graph, 'src/components/Header.tsx')).toContain(`from '${moduleId('src/config.ts')}'`);
+    expect(graph.unresolved).toEqual([]);
+  });
+
+  it('resolves folders to their index file and "@/" to src', () => {
+    const graph = buildModuleGraph([
+      file('src/App.tsx', "import { Button } from './components';\nimport { cn } from '@/lib/utils';\nexport default function App() { return <Button />; }"),
+      file('src/components/index.ts', "export * from './Button';"),
+      file('src/components/Button.tsx', 'export const Button = () => <button />;'),
+      file('src/lib/utils.ts', 'export const cn = (...c: string[]) => c.join(" ");'),
+    ]);
+
+    expect(codeOf(graph, 'src/App.tsx')).toContain(`from '${moduleId('src/components/index.ts')}'`);
+    expect(codeOf(graph, 'src/App.tsx')).toContain(`from '${moduleId('src/lib/utils.ts')}'`);
+    expect(codeOf(graph, 'src/components/index.ts')).toContain(`from '${moduleId('src/components/Button.tsx')}'`);
+    // The project's own utils win over the built-in stand-in
+    expect(graph.externals['@/lib/utils']).toBeUndefined();
+  });
+
+  it('keeps modules that import each other in a cycle', () => {
+    const graph = buildModuleGraph([
+      file('src/a.ts', "import { b } from './b';\nexport const a = () => b();"),
+      file('src/b.ts', "import { a } from './a';\nexport const b = () => a;"),
+    ]);
+
+    expect(graph.modules.map(m => m.path).sort()).toEqual(['src/a.ts', 'src/b.ts']);
+    expect(codeOf(graph, 'src/a.ts')).toContain(`from '${moduleId('src/b.ts')}'`);
+    expect(codeOf(graph, 'src/b.ts')).toContain(`from '${moduleId('src/a.ts')}'`);
+    expect(graph.unresolved).toEqual([]);
+  });
+
+  it('reports imports of missing modules and leaves them as written', () => {
+    const graph = buildModuleGraph([
+      file('src/App.tsx', "import Missing from './Missing';\nimport { Card } from '@/components/ui/card';\nexport default function App() { return <Missing />; }"),
+    ]);
+
+    expect(graph.unresolved).toEqual([{ importer: 'src/App.tsx', specifier: './Missing' }]);
+    expect(codeOf(graph, 'src/App.tsx')).toContain("from './Missing'");
+    // Shadcn paths without a project file fall back to the runtime's stand-ins
+    expect(graph.externals['@/components/ui/card']).toEqual(['Card']);
+  });
+
+  it('collects the names imported from each package', () => {
+    const graph = buildModuleGraph([
+      file('src/App.tsx', [
+        "import React, { useState } from 'react';",
+        "import * as Icons from 'lucide-react';",
+        "import { type FC, useMemo as memo } from 'react';",
+        "export { motion } from 'framer-motion';",
+        'export default function App() { return null; }',
+      ].join('\n')),
+    ]);
+
+    expect(graph.externals.react.sort()).toEqual(['default', 'useMemo', 'useState']);
+    expect(graph.externals['lucide-react']).toEqual(['*']);
+    expect(graph.externals['framer-motion']).toEqual([]);
+  });
+
+  it('loads stylesheets nothing imports globally', () => {
+    const graph = buildModuleGraph([
+      file('src/App.tsx', "import './App.css';\nexport default function App() { return null; }"),
+      file('src/App.css', '.app { color: red; }'),
+      file('styles.css', 'body { margin: 0; }'),
+    ]);
+
+    expect(graph.globalStyles).toEqual([moduleId('styles.css')]);
+    expect(codeOf(graph, 'src/App.tsx')).toContain(`import '${moduleId('src/App.css')}'`);
+  });
+
+  it('prefers a main file that mounts the app as the entry', () => {
+    const graph = buildModuleGraph([
+      file('src/App.tsx', 'export default function App() { return null; }'),
+      file('src/main.tsx', "import App from './App';\ncreateRoot(document.getElementById('root')!).render(<App />);"),
+    ]);
+
+    expect(graph.entry).toBe(moduleId('src/main.tsx'));
+  });
+
+  it('adds missing React imports on the first line and a default export to legacy entries', () => {
+    const graph = buildModuleGraph([
+      file('App.jsx', 'function App() {\n  const [count, setCount] = useState(0);\n  return <div>{count}</div>;\n}'),
+    ]);
+
+    const lines = codeOf(graph, 'App.jsx').split('\n');
+    expect(lines[0]).toBe("import { useState } from 'react'; function App() {");
+    expect(lines[1]).toBe('  const [count, setCount] = useState(0);');
+    expect(lines[lines.length - 1]).toBe('export default App;');
+  });
+});
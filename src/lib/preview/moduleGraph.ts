@@ -0,0 +1,224 @@
+// Builds the module graph the preview iframe executes. Every project file becomes
+// an ES module whose relative imports are rewritten to stable ids
+// ("@preview/src/components/Header.tsx") that the iframe's import map points at
+// blob URLs, so files can import each other exactly like they do under Vite.
+import { CodeFile } from '@/components/code/CodePreview';
+import { dirname, joinPath, normalizePath } from '@/lib/paths';
+
+export const MODULE_PREFIX = '@preview/';
+
+export type PreviewModuleKind = 'script' | 'style' | 'json';
+
+export interface PreviewModule {
+  id: string;
+  path: string;
+  kind: PreviewModuleKind;
+  // Scripts still need transpiling in the iframe; styles and JSON are emitted as ready-to-run JS
+  code: string;
+}
+
+export interface UnresolvedImport {
+  importer: string;
+  specifier: string;
+}
+
+export interface ModuleGraph {
+  entry: string | null;
+  modules: PreviewModule[];
+  // Stylesheets no module imports; loaded before the entry so legacy projects keep their styles
+  globalStyles: string[];
+  // Bare specifiers (e.g. "react", "lucide-react") and the names imported from each
+  externals: Record<string, string[]>;
+  unresolved: UnresolvedImport[];
+}
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const RESOLVE_EXTENSIONS = [...SCRIPT_EXTENSIONS, '.json', '.css'];
+
+// Shadcn-style paths the model likes to import; the runtime ships small stand-ins
+// for them when the project doesn't define its own.
+export const BUILTIN_SPECIFIERS = [
+  '@/components/ui/button',
+  '@/components/ui/input',
+  '@/components/ui/card',
+  '@/lib/utils',
+];
+
+// import x from '...', import '...', export { x } from '...', export * from '...', import('...')
+const IMPORT_REGEX = /(\bimport\s*(?:type\s+)?([\w$*{}\s,]*?)\s*from\s*|\bimport\s*|\bexport\s*(?:type\s+)?(?:\*(?:\s*as\s+[\w$]+)?|\{[^}]*\})\s*from\s*|\bimport\s*\(\s*)(['"])([^'"\n]+)\3/g;
+
+const HOOK_NAMES = ['useState', 'useEffect', 'useCallback', 'useMemo', 'useRef', 'useContext', 'useReducer', 'createContext', 'Fragment', 'memo', 'forwardRef'];
+
+export function moduleId(path: string): string {
+  return `${MODULE_PREFIX}${path}`;
+}
+
+function getKind(path: string): PreviewModuleKind | null {
+  if (path.endsWith('.css')) return 'style';
+  if (path.endsWith('.json')) return 'json';
+  if (SCRIPT_EXTENSIONS.some(ext => path.endsWith(ext))) return 'script';
+  return null;
+}
+
+function parseImportedNames(clause: string): string[] {
+  const names: string[] = [];
+  const trimmed = clause.trim();
+  if (!trimmed) return names;
+
+  const namedMatch = trimmed.match(/\{([^}]*)\}/);
+  const rest = trimmed.replace(/\{[^}]*\}/, '').replace(/,/g, ' ').trim();
+
+  if (/\*\s*as\s+[\w$]+/.test(rest)) names.push('*');
+  else if (rest && rest !== 'type') names.push('default');
+
+  if (namedMatch) {
+    for (const part of namedMatch[1].split(',')) {
+      const name = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim();
+      if (name && !part.trim().startsWith('type ')) names.push(name);
+    }
+  }
+  return names;
+}
+
+function resolveSpecifier(specifier: string, importer: string, paths: Set<string>, srcRoot: string): string | null {
+  let base: string;
+  if (specifier.startsWith('.')) {
+    base = joinPath(dirname(importer), specifier);
+  } else if (specifier.startsWith('@/')) {
+    base = joinPath(srcRoot, specifier.slice(2));
+  } else {
+    base = normalizePath(specifier);
+  }
+
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map(ext => `${base}${ext}`),
+    ...RESOLVE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+  return candidates.find(candidate => paths.has(candidate)) ?? null;
+}
+
+function isBareSpecifier(specifier: string): boolean {
+  return !specifier.startsWith('.') && !specifier.startsWith('/') && !specifier.startsWith('@/');
+}
+
+// Picks what to run: a self-mounting main/index file like Vite would, otherwise
+// the App component, otherwise the first component-looking file.
+function findEntry(files: Map<string, string>): string | null {
+  const scripts = Array.from(files.keys()).filter(p => getKind(p) === 'script');
+  const mounting = scripts.find(p =>
+    /^(src\/)?(main|index)\.(tsx|jsx|ts|js)$/.test(p) && /createRoot|\.render\(/.test(files.get(p)!)
+  );
+  if (mounting) return mounting;
+
+  const byDepth = [...scripts].sort((a, b) => a.split('/').length - b.split('/').length);
+  return (
+    byDepth.find(p => /(^|\/)App\.(tsx|jsx|ts|js)$/.test(p)) ||
+    byDepth.find(p => /\.(tsx|jsx)$/.test(p)) ||
+    byDepth[0] ||
+    null
+  );
+}
+
+// Code written for the old single-file preview relied on React globals and often had no export
+function applyLegacyFixups(code: string, isEntry: boolean): string {
+  let result = code;
+
+  const missingHooks = HOOK_NAMES.filter(name =>
+    new RegExp(`(^|[^.\\w$])${name}\\s*[(<]`).test(result) &&
+    !new RegExp(`\\bimport\\b[^;]*\\b${name}\\b[^;]*\\bfrom\\b`).test(result) &&
+    !new RegExp(`\\b(?:function|const|let|var)\\s+${name}\\b`).test(result)
+  );
+  // Added on the first line, so the line numbers Babel keeps still match the file
+  if (missingHooks.length > 0) {
+    result = `import { ${missingHooks.join(', ')} } from 'react'; ${result}`;
+  }
+
+  if (isEntry && !/\bexport\s+default\b/.test(result) && !/createRoot|\.render\(/.test(result)) {
+    const component =
+      (/\b(?:function|const|class)\s+App\b/.test(result) && 'App') ||
+      result.match(/^(?:export\s+)?(?:function|const|class)\s+([A-Z][\w$]*)/m)?.[1];
+    if (component) {
+      result += `\n\nexport default ${component};`;
+    }
+  }
+
+  return result;
+}
+
+function toStyleModule(path: string, css: string): string {
+  return [
+    'const style = document.createElement("style");',
+    `style.setAttribute("data-file", ${JSON.stringify(path)});`,
+    `style.textContent = ${JSON.stringify(css)};`,
+    'document.head.appendChild(style);',
+    `export default ${JSON.stringify(css)};`,
+  ].join('\n');
+}
+
+export function buildModuleGraph(files: CodeFile[]): ModuleGraph {
+  const sources = new Map<string, string>();
+  for (const file of files) {
+    const path = normalizePath(file.name);
+    if (path && getKind(path)) sources.set(path, file.content);
+  }
+
+  const paths = new Set(sources.keys());
+  const srcRoot = Array.from(paths).some(p => p.startsWith('src/')) ? 'src' : '';
+  const entry = findEntry(sources);
+
+  const modules: PreviewModule[] = [];
+  const externals: Record<string, Set<string>> = {};
+  const unresolved: UnresolvedImport[] = [];
+  const importedStyles = new Set<string>();
+
+  for (const [path, content] of sources) {
+    const kind = getKind(path)!;
+
+    if (kind === 'style') {
+      modules.push({ id: moduleId(path), path, kind, code: toStyleModule(path, content) });
+      continue;
+    }
+    if (kind === 'json') {
+      modules.push({ id: moduleId(path), path, kind, code: `export default ${content.trim() || 'null'};` });
+      continue;
+    }
+
+    const code = applyLegacyFixups(content, path === entry).replace(
+      IMPORT_REGEX,
+      (match, prefix: string, clause: string | undefined, quote: string, specifier: string) => {
+        if (isBareSpecifier(specifier)) {
+          const names = (externals[specifier] ??= new Set());
+          parseImportedNames(clause ?? '').forEach(name => names.add(name));
+          return match;
+        }
+
+        const resolved = resolveSpecifier(specifier, path, paths, srcRoot);
+        if (!resolved) {
+          if (BUILTIN_SPECIFIERS.includes(specifier)) {
+            const names = (externals[specifier] ??= new Set());
+            parseImportedNames(clause ?? '').forEach(name => names.add(name));
+            return match;
+          }
+          unresolved.push({ importer: path, specifier });
+          return match;
+        }
+
+        if (getKind(resolved) === 'style') importedStyles.add(resolved);
+        return `${prefix}${quote}${moduleId(resolved)}${quote}`;
+      }
+    );
+
+    modules.push({ id: moduleId(path), path, kind, code });
+  }
+
+  return {
+    entry: entry ? moduleId(entry) : null,
+    modules,
+    globalStyles: modules
+      .filter(m => m.kind === 'style' && !importedStyles.has(m.path))
+      .map(m => m.id),
+    externals: Object.fromEntries(Object.entries(externals).map(([key, names]) => [key, Array.from(names)])),
+    unresolved,
+  };
+}
@@ -0,0 +1,88 @@
+// Resolves bare npm imports in previewed code ("framer-motion", "date-fns/format")
+// to ES module URLs. The source is a URL template so an ESM CDN can be swapped for
+// a local mirror, either per browser (Settings) or per deployment (env).
+import { CodeFile } from '@/components/code/CodePreview';
+
+export interface PackageSourceConfig {
+  // "{package}" is replaced with the import specifier, versioned from the project's package.json when possible
+  urlTemplate: string;
+  enabled: boolean;
+}
+
+export interface ResolvedPackages {
+  urls: Record<string, string>;
+  unsupported: string[];
+}
+
+// React stays external so packages share the preview's single React instance
+export const DEFAULT_PACKAGE_URL_TEMPLATE =
+  import.meta.env.VITE_PREVIEW_PACKAGE_URL || 'https://esm.sh/{package}?external=react,react-dom';
+
+const STORAGE_KEY = 'eternity-preview-packages';
+
+// Packages that can never run in a browser iframe, whatever the source
+const UNSUPPORTED_PACKAGES = new Set([
+  'fs', 'path', 'os', 'child_process', 'crypto', 'http', 'https', 'net', 'stream', 'zlib',
+  'next', 'react-native', 'expo', 'electron',
+]);
+
+export function getPackageSourceConfig(): PackageSourceConfig {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { urlTemplate: DEFAULT_PACKAGE_URL_TEMPLATE, enabled: true, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error('Failed to parse preview package source:', e);
+  }
+  return { urlTemplate: DEFAULT_PACKAGE_URL_TEMPLATE, enabled: true };
+}
+
+export function setPackageSourceConfig(config: PackageSourceConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+export function clearPackageSourceConfig(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+// "@scope/name/sub/path" → "@scope/name"
+export function getPackageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function getDeclaredVersions(files: CodeFile[]): Record<string, string> {
+  const manifest = files.find(f => f.name === 'package.json' || f.name.endsWith('/package.json'));
+  if (!manifest) return {};
+  try {
+    const parsed = JSON.parse(manifest.content);
+    return { ...parsed.devDependencies, ...parsed.dependencies };
+  } catch {
+    return {};
+  }
+}
+
+export function resolvePackages(
+  specifiers: string[],
+  files: CodeFile[],
+  config: PackageSourceConfig = getPackageSourceConfig()
+): ResolvedPackages {
+  const versions = getDeclaredVersions(files);
+  const resolved: ResolvedPackages = { urls: {}, unsupported: [] };
+
+  for (const specifier of specifiers) {
+    const name = getPackageName(specifier.replace(/^node:/, ''));
+    if (specifier.startsWith('node:') || UNSUPPORTED_PACKAGES.has(name) || !config.enabled || !config.urlTemplate) {
+      resolved.unsupported.push(specifier);
+      continue;
+    }
+
+    const version = versions[name]?.replace(/^[\^~]/, '');
+    const subpath = specifier.slice(name.length);
+    const versioned = version && /^[\w.-]+$/.test(version) ? `${name}@${version}${subpath}` : specifier;
+    resolved.urls[specifier] = config.urlTemplate.replace('{package}', versioned);
+  }
+
+  return resolved;
+}
@@ -0,0 +1,155 @@
+// Host side of the preview: owns an iframe, renders project files into it and
+// turns the loader's postMessage traffic into typed events. Every preview
+// surface (chat panel, PreviewEngine, LivePreview) goes through this.
+import { CodeFile } from '@/components/code/CodePreview';
+import { buildPreviewDocument } from './document';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type PreviewEvent =
+  | { type: 'loading' }
+  | { type: 'ready' }
+  | { type: 'error'; error: string; file?: string; stack?: string; packages?: string[] }
+  | { type: 'console'; level: ConsoleLevel; args: string[]; stack?: string }
+  // Posted once when a fetch/XHR starts and again, with status or error, when it settles
+  | { type: 'network'; id: number; method: string; url: string; status?: number; error?: string; duration?: number };
+
+export type PreviewListener = (event: PreviewEvent) => void;
+
+export interface PreviewState {
+  isReady: boolean;
+  error: string | null;
+  // Bare imports the preview couldn't provide, shown in the toolbar
+  unsupportedPackages: string[];
+}
+
+export interface PreviewAPI {
+  // Binds the runtime to an iframe (null detaches); the current files are rendered immediately
+  attach: (iframe: HTMLIFrameElement | null) => void;
+  updatePreview: (files: CodeFile[]) => void;
+  refresh: () => void;
+  openInNewTab: () => void;
+  getState: () => PreviewState;
+  subscribe: (listener: PreviewListener) => () => void;
+}
+
+// The tab is opened before the document is built so popup blockers still see the click
+export async function openPreviewInNewTab(files: CodeFile[]) {
+  const tab = window.open('', '_blank');
+  if (!tab) return;
+  const html = await buildPreviewDocument(files);
+  if (!html) {
+    tab.close();
+    return;
+  }
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  tab.location.href = url;
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function toPreviewEvent(data: unknown): PreviewEvent | null {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Record<string, unknown>;
+
+  switch (message.type) {
+    case 'preview-ready':
+      return { type: 'ready' };
+    case 'preview-error':
+      return {
+        type: 'error',
+        error: String(message.error ?? 'Unknown error'),
+        file: typeof message.file === 'string' ? message.file : undefined,
+        stack: typeof message.stack === 'string' ? message.stack : undefined,
+        packages: Array.isArray(message.packages) ? message.packages.map(String) : undefined,
+      };
+    case 'preview-console':
+      return {
+        type: 'console',
+        level: (message.level as ConsoleLevel) ?? 'log',
+        args: Array.isArray(message.args) ? message.args.map(String) : [],
+        stack: typeof message.stack === 'string' ? message.stack : undefined,
+      };
+    case 'preview-network':
+      return {
+        type: 'network',
+        id: Number(message.id),
+        method: String(message.method ?? 'GET'),
+        url: String(message.url ?? ''),
+        status: typeof message.status === 'number' ? message.status : undefined,
+        error: typeof message.error === 'string' ? message.error : undefined,
+        duration: typeof message.duration === 'number' ? message.duration : undefined,
+      };
+    default:
+      return null;
+  }
+}
+
+export function createPreviewAPI(): PreviewAPI {
+  let iframe: HTMLIFrameElement | null = null;
+  let files: CodeFile[] = [];
+  let state: PreviewState = { isReady: false, error: null, unsupportedPackages: [] };
+  // Bumped on every render so a slower, older build can't overwrite a newer one
+  let renderId = 0;
+  const listeners = new Set<PreviewListener>();
+
+  const emit = (event: PreviewEvent) => {
+    if (event.type === 'loading') state = { isReady: false, error: null, unsupportedPackages: [] };
+    if (event.type === 'ready') state = { ...state, isReady: true };
+    if (event.type === 'error') {
+      state = { ...state, error: event.error, unsupportedPackages: event.packages ?? state.unsupportedPackages };
+    }
+    listeners.forEach(listener => listener(event));
+  };
+
+  // Only trust messages from our own iframe; other previews on the page post the same types
+  const handleMessage = (event: MessageEvent) => {
+    if (!iframe || event.source !== iframe.contentWindow) return;
+    const previewEvent = toPreviewEvent(event.data);
+    if (previewEvent) emit(previewEvent);
+  };
+
+  const render = async () => {
+    if (!iframe || files.length === 0) return;
+    const id = ++renderId;
+    emit({ type: 'loading' });
+    try {
+      const html = await buildPreviewDocument(files);
+      if (id === renderId && iframe) iframe.srcdoc = html;
+    } catch (e) {
+      if (id === renderId) emit({ type: 'error', error: (e as Error).message });
+    }
+  };
+
+  return {
+    attach: (next) => {
+      if (next === iframe) return;
+      if (iframe) window.removeEventListener('message', handleMessage);
+      iframe = next;
+      if (iframe) {
+        window.addEventListener('message', handleMessage);
+        render();
+      }
+    },
+    updatePreview: (next) => {
+      files = next;
+      render();
+    },
+    refresh: render,
+    openInNewTab: () => openPreviewInNewTab(files),
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Convenience for one-off previews: attaches a new runtime and renders `files`
+export function mountPreview(iframe: HTMLIFrameElement, files: CodeFile[]): PreviewAPI {
+  const api = createPreviewAPI();
+  api.updatePreview(files);
+  api.attach(iframe);
+  return api;
+}
@@ -0,0 +1,92 @@
+// Stand-in modules for packages the preview iframe can't load from the project
+// itself. Each value is ES module source evaluated inside the iframe, where the
+// React and ReactDOM UMD builds are available as globals.
+
+import type { IconNode } from './icons';
+
+// Drawn for names lucide-react doesn't export, so a typo doesn't take down the whole render
+const PLACEHOLDER_ICON: IconNode = [['rect', { width: 18, height: 18, x: 3, y: 3, rx: 2 }]];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export function lucideModule(names: string[], nodes: Record<string, IconNode>): string {
+  const exported = names.filter(name => name !== 'default' && name !== '*' && IDENTIFIER.test(name));
+  const lines = exported.map(name =>
+    `export const ${name} = createIcon(${JSON.stringify(name)}, ${JSON.stringify(nodes[name] ?? PLACEHOLDER_ICON)});`
+  );
+
+  return `const React = window.React;
+const toKebab = (name) => name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+function createIcon(name, nodes) {
+  const Icon = React.forwardRef(({ color = 'currentColor', size = 24, strokeWidth = 2, className = '', children, ...props }, ref) =>
+    React.createElement('svg', {
+      ref, xmlns: 'http://www.w3.org/2000/svg', width: size, height: size, viewBox: '0 0 24 24',
+      fill: 'none', stroke: color, strokeWidth, strokeLinecap: 'round', strokeLinejoin: 'round',
+      className: ['lucide', 'lucide-' + toKebab(name), className].filter(Boolean).join(' '), ...props,
+    }, ...nodes.map(([tag, attrs], i) => React.createElement(tag, { key: i, ...attrs })), children)
+  );
+  Icon.displayName = name;
+  return Icon;
+}
+${lines.join('\n')}`;
+}
+
+export const UI_MODULES: Record<string, string> = {
+  '@/lib/utils': `export const cn = (...classes) => classes.filter(Boolean).join(' ');`,
+
+  '@/components/ui/button': `const React = window.React;
+const variants = {
+  default: 'bg-blue-600 text-white hover:bg-blue-700',
+  destructive: 'bg-red-600 text-white hover:bg-red-700',
+  outline: 'border border-gray-300 bg-transparent hover:bg-gray-100',
+  secondary: 'bg-gray-200 text-gray-900 hover:bg-gray-300',
+  ghost: 'hover:bg-gray-100',
+  link: 'text-blue-600 underline-offset-4 hover:underline',
+};
+const sizes = { default: 'h-10 px-4 py-2', sm: 'h-9 rounded-md px-3', lg: 'h-11 rounded-md px-8', icon: 'h-10 w-10' };
+export const Button = React.forwardRef(({ className = '', variant = 'default', size = 'default', ...props }, ref) =>
+  React.createElement('button', {
+    ref,
+    className: 'inline-flex items-center justify-center rounded-md font-medium transition-colors focus-visible:outline-none disabled:pointer-events-none disabled:opacity-50 '
+      + (variants[variant] || variants.default) + ' ' + (sizes[size] || sizes.default) + ' ' + className,
+    ...props,
+  })
+);`,
+
+  '@/components/ui/input': `const React = window.React;
+export const Input = React.forwardRef(({ className = '', ...props }, ref) =>
+  React.createElement('input', {
+    ref,
+    className: 'flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 ' + className,
+    ...props,
+  })
+);`,
+
+  '@/components/ui/card': `const React = window.React;
+const part = (tag, base) => ({ className = '', ...props }) => React.createElement(tag, { className: base + ' ' + className, ...props });
+export const Card = part('div', 'rounded-lg border bg-white shadow-sm');
+export const CardHeader = part('div', 'flex flex-col space-y-1.5 p-6');
+export const CardTitle = part('h3', 'text-2xl font-semibold leading-none tracking-tight');
+export const CardDescription = part('p', 'text-sm text-gray-500');
+export const CardContent = part('div', 'p-6 pt-0');
+export const CardFooter = part('div', 'flex items-center p-6 pt-0');`,
+};
+
+// "react" and "react-dom" themselves are generated by the loader from the UMD globals' keys
+export const GLOBAL_MODULES: Record<string, string> = {
+  'react-dom/client': `const ReactDOM = window.ReactDOM;
+// Mirrors what the real react-dom/client entry does so createRoot doesn't warn
+if (ReactDOM.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED) {
+  ReactDOM.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED.usingClientEntryPoint = true;
+}
+export const createRoot = (...args) => ReactDOM.createRoot(...args);
+export const hydrateRoot = (...args) => ReactDOM.hydrateRoot(...args);
+export default { createRoot, hydrateRoot };`,
+  'react/jsx-runtime': `const React = window.React;
+// Children stay in props, which createElement accepts as-is
+export const jsx = (type, props, key) => React.createElement(type, key === undefined ? props : { ...props, key });
+export const jsxs = jsx;
+export const jsxDEV = jsx;
+export const Fragment = React.Fragment;`,
+};
+GLOBAL_MODULES['react/jsx-dev-runtime'] = GLOBAL_MODULES['react/jsx-runtime'];
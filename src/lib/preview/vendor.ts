@@ -0,0 +1,17 @@
+// Runtimes the preview iframe needs, bundled with the app as same-origin assets
+// so previews render without network access. Versions are pinned in package.json.
+// Tailwind is the v3 Play CDN build, the major version generated code and exported
+// projects are written for.
+import reactUrl from '@preview-vendor/react/react.development.js?url';
+import reactDomUrl from '@preview-vendor/react-dom/react-dom.development.js?url';
+import babelUrl from '@preview-vendor/babel/babel.min.js?url';
+import tailwindUrl from '@preview-vendor/tailwind/tailwindcss.js?url';
+
+// Absolute, because documents opened from a blob: URL can't resolve relative paths
+function toAbsolute(url: string): string {
+  return new URL(url, window.location.href).href;
+}
+
+export function getVendorScripts(): string[] {
+  return [reactUrl, reactDomUrl, babelUrl, tailwindUrl].map(toAbsolute);
+}
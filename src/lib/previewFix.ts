@@ -0,0 +1,87 @@
+// Follow-up messages that report a preview failure back to the model.
+// The report is a normal user message so it is saved with the conversation,
+// and its first line lets the chat render it as a compact fix request.
+import { CodeFile } from '@/components/code/CodePreview';
+import { getLanguageFromPath } from '@/lib/codeExtractor';
+
+export interface PreviewFailure {
+  error: string;
+  stack?: string;
+  // Project path the loader attributed the error to (syntax errors, missing modules)
+  file?: string;
+}
+
+export interface FixRequestInfo {
+  attempt: number;
+  maxAttempts: number;
+  error: string;
+  file?: string;
+}
+
+// Automatic fixes stop after this many attempts in a row without a working preview
+export const MAX_FIX_ATTEMPTS = 3;
+
+const HEADER = '[Preview error report]';
+const HEADER_REGEX = /^\[Preview error report\] Attempt (\d+) of (\d+)/;
+const MAX_STACK_LINES = 12;
+
+// A fence longer than any backtick run in the content, so file contents can't close it early
+function fence(content: string, language = ''): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+// The file named by the loader, otherwise the first project file that appears in the stack
+export function findFailingFile(failure: PreviewFailure, files: CodeFile[]): CodeFile | undefined {
+  if (failure.file) {
+    const named = files.find(f => f.name === failure.file);
+    if (named) return named;
+  }
+  if (!failure.stack) return undefined;
+
+  const byLength = [...files].sort((a, b) => b.name.length - a.name.length);
+  for (const line of failure.stack.split('\n')) {
+    const match = byLength.find(f => line.includes(`${f.name}:`));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+export function buildFixRequest(
+  failure: PreviewFailure,
+  files: CodeFile[],
+  attempt: number,
+  maxAttempts = MAX_FIX_ATTEMPTS
+): string {
+  const file = findFailingFile(failure, files);
+  const sections = [
+    `${HEADER} Attempt ${attempt} of ${maxAttempts}`,
+    `The live preview failed with this error:\n${fence(failure.error)}`,
+  ];
+
+  if (failure.stack) {
+    const stack = failure.stack.split('\n').slice(0, MAX_STACK_LINES).join('\n');
+    sections.push(`Stack trace:\n${fence(stack)}`);
+  }
+
+  if (file) {
+    sections.push(`Current contents of \`${file.name}\`:\n${fence(file.content, getLanguageFromPath(file.name))}`);
+  }
+
+  sections.push(
+    'Fix the cause of this error with the smallest change that makes the preview render. ' +
+    'Only return file operations for the files you change, and keep everything else as it is.'
+  );
+
+  return sections.join('\n\n');
+}
+
+export function parseFixRequest(content: string): FixRequestInfo | null {
+  const header = content.match(HEADER_REGEX);
+  if (!header) return null;
+
+  const error = content.match(/failed with this error:\n(`{3,})\n([\s\S]*?)\n\1/)?.[2] ?? '';
+  const file = content.match(/Current contents of `([^`]+)`/)?.[1];
+  return { attempt: Number(header[1]), maxAttempts: Number(header[2]), error, file };
+}
@@ -0,0 +1,122 @@
+// Turns the project's file set into a runnable Vite + React project for ZIP
+// export and deployment. Files keep their directory structure; scaffold files
+// are only added when the project doesn't already provide them.
+import { CodeFile } from '@/components/code/CodePreview';
+import { basename, dirname, normalizePath } from './paths';
+
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+const SOURCE_EXTENSIONS = /\.(tsx|ts|jsx|js|css|json)$/;
+const SCRIPT_EXTENSIONS = /\.(tsx|ts|jsx|js)$/;
+
+// Files that belong at the project root even when the assistant wrote them without a folder
+const ROOT_FILES = new Set([
+  'package.json',
+  'index.html',
+  'vite.config.ts',
+  'vite.config.js',
+  'tailwind.config.js',
+  'tailwind.config.ts',
+  'postcss.config.js',
+  'tsconfig.json',
+  'README.md',
+]);
+
+function toProjectPath(path: string, hasSrcFolder: boolean): string {
+  // Older conversations produced bare names like "App.tsx" or "components/Card.tsx";
+  // those are application sources, so they move under src/ unless a src/ folder exists.
+  if (hasSrcFolder || ROOT_FILES.has(path) || !SOURCE_EXTENSIONS.test(path)) return path;
+  return `src/${path}`;
+}
+
+function findEntry(paths: string[]): string | undefined {
+  const scripts = paths.filter(p => p.startsWith('src/') && /\.(tsx|jsx)$/.test(p));
+  return (
+    paths.find(p => /^src\/App\.(tsx|jsx|ts|js)$/.test(p)) ||
+    scripts.find(p => basename(p).startsWith('App.')) ||
+    scripts.find(p => dirname(p) === 'src' && !/^main\./.test(basename(p))) ||
+    scripts[0]
+  );
+}
+
+// Code written for the old single-file preview relied on React globals and had no export
+function fixLegacyEntry(content: string): string {
+  let result = content;
+  if (!/^\s*import\s/m.test(result)) {
+    result = `import React, { useState, useEffect } from 'react';\n\n${result}`;
+  }
+  if (!result.includes('export default') && /(?:function|const|class)\s+App\b/.test(result)) {
+    result += '\n\nexport default App;';
+  }
+  return result;
+}
+
+function toImportSpecifier(path: string): string {
+  return `./${path.replace(/^src\//, '').replace(SCRIPT_EXTENSIONS, '')}`;
+}
+
+export function getProjectSlug(projectName: string): string {
+  return projectName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+}
+
+export function buildProjectFiles(files: CodeFile[], projectName: string): ExportFile[] {
+  const normalized = files
+    .map(f => ({ path: normalizePath(f.name), content: f.content }))
+    .filter(f => f.path);
+  const hasSrcFolder = normalized.some(f => f.path.startsWith('src/'));
+
+  const output = new Map<string, string>();
+  for (const file of normalized) {
+    output.set(toProjectPath(file.path, hasSrcFolder), file.content);
+  }
+
+  const paths = Array.from(output.keys());
+  let entry = findEntry(paths);
+  if (entry) {
+    output.set(entry, fixLegacyEntry(output.get(entry)!));
+  } else {
+    entry = 'src/App.tsx';
+    output.set(entry, `function App() {\n  return (\n    <div className="min-h-screen bg-gray-100 flex items-center justify-center">\n      <h1 className="text-4xl font-bold">${projectName}</h1>\n    </div>\n  );\n}\n\nexport default App;\n`);
+  }
+
+  const scaffold: ExportFile[] = [
+    {
+      path: 'package.json',
+      content: JSON.stringify({
+        name: getProjectSlug(projectName) || 'my-project', private: true, version: '0.1.0', type: 'module',
+        scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+        dependencies: { react: '^18.3.1', 'react-dom': '^18.3.1', 'lucide-react': '^0.462.0' },
+        devDependencies: { '@types/react': '^18.3.3', '@types/react-dom': '^18.3.0', '@vitejs/plugin-react': '^4.3.1', autoprefixer: '^10.4.19', postcss: '^8.4.38', tailwindcss: '^3.4.4', typescript: '^5.2.2', vite: '^5.3.4' },
+      }, null, 2),
+    },
+    { path: 'vite.config.ts', content: `import { defineConfig } from 'vite'\nimport react from '@vitejs/plugin-react'\nexport default defineConfig({ plugins: [react()] })` },
+    { path: 'index.html', content: `<!DOCTYPE html>\n<html lang="en">\n<head><meta charset="UTF-8"/><meta name="viewport" content="width=device-width, initial-scale=1.0"/><title>${projectName}</title></head>\n<body><div id="root"></div><script type="module" src="/src/main.tsx"></script></body>\n</html>` },
+    { path: 'src/index.css', content: `@tailwind base;\n@tailwind components;\n@tailwind utilities;\n` },
+    { path: 'tailwind.config.js', content: `export default { content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'], theme: { extend: {} }, plugins: [] }` },
+    { path: 'postcss.config.js', content: `export default { plugins: { tailwindcss: {}, autoprefixer: {} } }` },
+  ];
+
+  if (!paths.some(p => /^src\/main\.(tsx|jsx|ts|js)$/.test(p))) {
+    // Stylesheets nothing imports would otherwise be dropped by the bundler
+    const scripts = Array.from(output.entries()).filter(([p]) => SCRIPT_EXTENSIONS.test(p));
+    const orphanStyles = paths.filter(p =>
+      p.startsWith('src/') && p.endsWith('.css') && p !== 'src/index.css' &&
+      !scripts.some(([, content]) => content.includes(basename(p)))
+    );
+    const styleImports = ['src/index.css', ...orphanStyles].map(p => `import './${p.replace(/^src\//, '')}'`).join('\n');
+
+    scaffold.push({
+      path: 'src/main.tsx',
+      content: `import React from 'react'\nimport ReactDOM from 'react-dom/client'\nimport App from '${toImportSpecifier(entry)}'\n${styleImports}\nReactDOM.createRoot(document.getElementById('root')!).render(<React.StrictMode><App /></React.StrictMode>)`,
+    });
+  }
+
+  for (const file of scaffold) {
+    if (!output.has(file.path)) output.set(file.path, file.content);
+  }
+
+  return Array.from(output.entries()).map(([path, content]) => ({ path, content }));
+}
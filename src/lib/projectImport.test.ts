@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { MAX_IMPORT_FILES, mergeImportedFiles, readImportSource } from './projectImport';
+
+// A file as picked with <input webkitdirectory>
+function picked(path: string, content: string | Uint8Array = `// ${path}`): File {
+  const file = new File([content], path.split('/').pop()!);
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+}
+
+function importFiles(files: File[]) {
+  return readImportSource({ kind: 'files', files });
+}
+
+async function zipOf(name: string, entries: Record<string, string | Uint8Array>): Promise<File> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(entries)) zip.file(path, content);
+  return new File([await zip.generateAsync({ type: 'uint8array' })], name);
+}
+
+const paths = (result: { files: { name: string }[] }) => result.files.map(f => f.name);
+
+describe('readImportSource', () => {
+  it('strips the folder every file is in and names the project after it', async () => {
+    const result = await importFiles([picked('my-app/package.json', '{}'), picked('my-app/src/App.tsx')]);
+    expect(paths(result)).toEqual(['package.json', 'src/App.tsx']);
+    expect(result.name).toBe('my-app');
+    expect(result.files[1]).toEqual({ name: 'src/App.tsx', language: 'typescript', content: '// my-app/src/App.tsx' });
+  });
+
+  it('keeps paths as they are without a shared top-level folder', async () => {
+    const result = await importFiles([picked('index.html'), picked('src/main.ts')]);
+    expect(paths(result)).toEqual(['index.html', 'src/main.ts']);
+    expect(result.name).toBe('Imported project');
+  });
+
+  it('does not strip a folder that only prefixes some names', async () => {
+    const result = await importFiles([picked('app/index.ts'), picked('app-old/index.ts')]);
+    expect(paths(result)).toEqual(['app-old/index.ts', 'app/index.ts']);
+  });
+
+  it('skips ignored directories, lockfiles and binary files', async () => {
+    const result = await importFiles([
+      picked('my-app/src/App.tsx'),
+      picked('my-app/node_modules/react/index.js'),
+      picked('my-app/node_modules/react/package.json'),
+      picked('my-app/.git/HEAD'),
+      picked('my-app/package-lock.json'),
+      picked('my-app/public/logo.PNG'),
+      picked('my-app/data.txt', 'a\u0000b'),
+    ]);
+    expect(paths(result)).toEqual(['src/App.tsx']);
+    expect(result.skipped).toEqual(expect.arrayContaining([
+      { path: 'node_modules/', reason: 'ignored' },
+      { path: '.git/', reason: 'ignored' },
+      { path: 'package-lock.json', reason: 'ignored' },
+      { path: 'public/logo.PNG', reason: 'binary' },
+      { path: 'data.txt', reason: 'binary' },
+    ]));
+    // Each ignored directory is reported once, not per file
+    expect(result.skipped).toHaveLength(5);
+  });
+
+  it('skips files over 512 KB', async () => {
+    const result = await importFiles([picked('index.html'), picked('src/data.json', 'x'.repeat(512 * 1024 + 1))]);
+    expect(paths(result)).toEqual(['index.html']);
+    expect(result.skipped).toEqual([{ path: 'src/data.json', reason: 'too large' }]);
+  });
+
+  it('stops at the file limit', async () => {
+    const files = Array.from({ length: MAX_IMPORT_FILES + 2 }, (_, i) => picked(`src/f${String(i).padStart(3, '0')}.ts`));
+    const result = await importFiles(files);
+    expect(result.files).toHaveLength(MAX_IMPORT_FILES);
+    expect(result.skipped).toEqual([
+      { path: 'f500.ts', reason: 'limit' },
+      { path: 'f501.ts', reason: 'limit' },
+    ]);
+  });
+
+  it('stops once the files add up to 10 MB', async () => {
+    const chunk = 'x'.repeat(500 * 1024);
+    const files = Array.from({ length: 21 }, (_, i) => picked(`src/f${String(i).padStart(2, '0')}.ts`, chunk));
+    const result = await importFiles(files);
+    expect(result.files).toHaveLength(20);
+    expect(result.skipped).toEqual([{ path: 'f20.ts', reason: 'limit' }]);
+  });
+
+  it('reads ZIP files, checking sizes once entries are read', async () => {
+    const zip = await zipOf('export.zip', {
+      'my-app/src/App.tsx': 'export default 1;',
+      'my-app/dist/index.js': 'built',
+      'my-app/big.json': 'x'.repeat(512 * 1024 + 1),
+      'my-app/font.woff2': new Uint8Array([0, 1, 2]),
+    });
+    const result = await readImportSource({ kind: 'zip', file: zip });
+    expect(result.name).toBe('my-app');
+    expect(result.files).toEqual([{ name: 'src/App.tsx', language: 'typescript', content: 'export default 1;' }]);
+    expect(result.skipped).toEqual([
+      { path: 'dist/', reason: 'ignored' },
+      { path: 'big.json', reason: 'too large' },
+      { path: 'font.woff2', reason: 'binary' },
+    ]);
+  });
+
+  it('names a ZIP without a top-level folder after the file', async () => {
+    const result = await readImportSource({ kind: 'zip', file: await zipOf('Landing Page.zip', { 'index.html': '<h1>Hi</h1>' }) });
+    expect(result.name).toBe('Landing Page');
+    expect(paths(result)).toEqual(['index.html']);
+  });
+
+  it('rejects ZIP files over 50 MB before reading them', async () => {
+    const file = { name: 'huge.zip', size: 50 * 1024 * 1024 + 1 } as File;
+    await expect(readImportSource({ kind: 'zip', file })).rejects.toThrow("ZIP files over 50 MB can't be imported");
+  });
+});
+
+describe('mergeImportedFiles', () => {
+  const existing = [
+    { name: 'src/App.tsx', language: 'typescript', content: 'old' },
+    { name: 'README.md', language: 'markdown', content: 'keep' },
+  ];
+  const imported = [{ name: 'src/App.tsx', language: 'typescript', content: 'new' }];
+
+  it('lets imported files win over existing ones at the same path', () => {
+    expect(mergeImportedFiles(existing, imported, false)).toEqual([existing[1], imported[0]]);
+  });
+
+  it('drops everything else when replacing', () => {
+    expect(mergeImportedFiles(existing, imported, true)).toEqual(imported);
+  });
+});
@@ -0,0 +1,190 @@
+// Reads an existing codebase from a ZIP or a dropped folder into project files.
+// Only text sources are kept: dependencies, build output, version control data
+// and binary assets are skipped, and a shared top-level folder is stripped.
+import JSZip from 'jszip';
+import { CodeFile } from '@/components/code/CodePreview';
+import { getLanguageFromPath } from './codeExtractor';
+
+export const MAX_IMPORT_FILES = 500;
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_TOTAL_BYTES = 10 * 1024 * 1024;
+const MAX_ZIP_BYTES = 50 * 1024 * 1024;
+
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', '.git', '.svn', '.hg', 'dist', 'build', 'out', '.next', '.nuxt',
+  '.svelte-kit', '.cache', '.turbo', '.vercel', '.netlify', 'coverage', '.idea', '__MACOSX',
+]);
+// Lockfiles are regenerated on install and would crowd out the sources
+const IGNORED_FILES = /(^|\/)(\.DS_Store|Thumbs\.db|package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$/;
+const BINARY_FILES = /\.(png|jpe?g|gif|webp|avif|ico|bmp|tiff?|psd|woff2?|ttf|otf|eot|mp3|mp4|wav|ogg|webm|mov|zip|tar|gz|tgz|rar|7z|pdf|docx?|xlsx?|pptx?|exe|dll|so|dylib|wasm|bin|jar|class|pyc)$/i;
+
+export type ImportSource =
+  | { kind: 'zip'; file: File }
+  // Dropped folders and files, from DataTransferItem.webkitGetAsEntry()
+  | { kind: 'entries'; entries: FileSystemEntry[] }
+  // A folder picked with <input webkitdirectory>; paths are in webkitRelativePath
+  | { kind: 'files'; files: File[] };
+
+export type SkipReason = 'ignored' | 'binary' | 'too large' | 'limit';
+
+export interface ImportResult {
+  files: CodeFile[];
+  skipped: { path: string; reason: SkipReason }[];
+  // The folder or ZIP name, as a default project name
+  name: string;
+}
+
+// A file found in the upload; only read if its path passes the filters
+interface ImportEntry {
+  path: string;
+  // Unknown for ZIP entries until they are read
+  size: number | null;
+  read(): Promise<string>;
+}
+
+// The path up to and including an ignored directory, if it is inside one
+function ignoredDirectory(path: string): string | null {
+  const segments = path.split('/');
+  const index = segments.findIndex((segment, i) => i < segments.length - 1 && IGNORED_DIRECTORIES.has(segment));
+  return index === -1 ? null : segments.slice(0, index + 1).join('/');
+}
+
+// "my-app/" when every path starts with it
+function sharedRoot(paths: string[]): string {
+  const first = paths[0]?.split('/')[0];
+  if (!first || paths.some(path => !path.startsWith(`${first}/`))) return '';
+  return `${first}/`;
+}
+
+// `ignored` holds directories already skipped while walking, with their full paths
+async function collect(entries: ImportEntry[], name: string, ignored: Set<string> = new Set()): Promise<ImportResult> {
+  const root = sharedRoot(entries.map(e => e.path));
+  const files: CodeFile[] = [];
+  const skipped: ImportResult['skipped'] = [];
+  let total = 0;
+
+  const sorted = [...entries].sort((a, b) => a.path.localeCompare(b.path));
+  for (const entry of sorted) {
+    const path = entry.path.slice(root.length);
+    const directory = ignoredDirectory(entry.path);
+    if (directory) {
+      ignored.add(directory);
+      continue;
+    }
+    if (IGNORED_FILES.test(path)) {
+      skipped.push({ path, reason: 'ignored' });
+      continue;
+    }
+    if (BINARY_FILES.test(path)) {
+      skipped.push({ path, reason: 'binary' });
+      continue;
+    }
+    if (entry.size !== null && entry.size > MAX_FILE_BYTES) {
+      skipped.push({ path, reason: 'too large' });
+      continue;
+    }
+    if (files.length >= MAX_IMPORT_FILES || total >= MAX_TOTAL_BYTES) {
+      skipped.push({ path, reason: 'limit' });
+      continue;
+    }
+
+    const content = await entry.read();
+    if (content.includes('\u0000')) {
+      skipped.push({ path, reason: 'binary' });
+    } else if (content.length > MAX_FILE_BYTES) {
+      skipped.push({ path, reason: 'too large' });
+    } else if (total + content.length > MAX_TOTAL_BYTES) {
+      skipped.push({ path, reason: 'limit' });
+    } else {
+      files.push({ name: path, language: getLanguageFromPath(path), content });
+      total += content.length;
+    }
+  }
+
+  for (const directory of ignored) {
+    skipped.unshift({ path: `${directory.slice(root.length)}/`, reason: 'ignored' });
+  }
+  return { files, skipped, name: root ? root.slice(0, -1) : name };
+}
+
+async function readZip(file: File): Promise<ImportResult> {
+  if (file.size > MAX_ZIP_BYTES) {
+    throw new Error(`ZIP files over ${MAX_ZIP_BYTES / (1024 * 1024)} MB can't be imported`);
+  }
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries: ImportEntry[] = [];
+  zip.forEach((path, entry) => {
+    if (!entry.dir) entries.push({ path, size: null, read: () => entry.async('string') });
+  });
+  return collect(entries, file.name.replace(/\.zip$/i, ''));
+}
+
+function readDirectory(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+// Walks dropped entries without descending into ignored directories such as node_modules
+async function walk(entry: FileSystemEntry, entries: ImportEntry[], ignored: Set<string>): Promise<void> {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (entry.isDirectory) {
+    if (IGNORED_DIRECTORIES.has(entry.name)) {
+      ignored.add(path);
+      return;
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most 100 entries per call
+    let batch = await readDirectory(reader);
+    while (batch.length > 0) {
+      for (const child of batch) await walk(child, entries, ignored);
+      batch = await readDirectory(reader);
+    }
+  } else if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    entries.push({ path, size: file.size, read: () => file.text() });
+  }
+}
+
+async function readEntries(dropped: FileSystemEntry[]): Promise<ImportResult> {
+  const entries: ImportEntry[] = [];
+  const ignored = new Set<string>();
+  for (const entry of dropped) await walk(entry, entries, ignored);
+  return collect(entries, dropped.length === 1 ? dropped[0].name : 'Imported project', ignored);
+}
+
+export function readImportSource(source: ImportSource): Promise<ImportResult> {
+  switch (source.kind) {
+    case 'zip':
+      return readZip(source.file);
+    case 'entries':
+      return readEntries(source.entries);
+    case 'files':
+      return collect(
+        source.files.map(file => ({
+          path: file.webkitRelativePath || file.name,
+          size: file.size,
+          read: () => file.text(),
+        })),
+        'Imported project'
+      );
+  }
+}
+
+// The source a drop should be imported from, or null for ordinary chat attachments.
+// Must be called during the drop event, before the browser clears the DataTransfer.
+export function getDroppedImportSource(dataTransfer: DataTransfer): ImportSource | null {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.some(entry => entry.isDirectory)) return { kind: 'entries', entries };
+  const files = Array.from(dataTransfer.files ?? []);
+  if (files.length === 1 && /\.zip$/i.test(files[0].name)) return { kind: 'zip', file: files[0] };
+  return null;
+}
+
+// Imported files win over existing ones at the same path; `replace` drops the rest
+export function mergeImportedFiles(existing: CodeFile[], imported: CodeFile[], replace: boolean): CodeFile[] {
+  if (replace) return imported;
+  const importedPaths = new Set(imported.map(f => f.name));
+  return [...existing.filter(f => !importedPaths.has(f.name)), ...imported];
+}
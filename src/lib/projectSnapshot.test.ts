@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { CodeFile } from '@/components/code/CodePreview';
+import { buildProjectSnapshot, snapshotBudget } from './projectSnapshot';
+import { estimateTokens } from './contextBuilder';
+
+function file(name: string, size = 40): CodeFile {
+  return { name, language: 'typescript', content: 'x'.repeat(size) };
+}
+
+// What a file costs in the snapshot, header and footer included
+function cost(f: CodeFile): number {
+  return estimateTokens(`\n--- ${f.name} ---\n${f.content}\n--- end of ${f.name} ---\n`);
+}
+
+describe('snapshotBudget', () => {
+  it('takes a third of the context window, at most 32k tokens', () => {
+    expect(snapshotBudget(8_192)).toBe(2_730);
+    expect(snapshotBudget(96_000)).toBe(32_000);
+    expect(snapshotBudget(1_000_000)).toBe(32_000);
+  });
+});
+
+describe('buildProjectSnapshot', () => {
+  it('is empty for a project without files', () => {
+    expect(buildProjectSnapshot([], { maxTokens: 1000 })).toEqual({ text: '', included: [], omitted: [] });
+  });
+
+  it('includes every file that fits, in path order', () => {
+    const files = [file('src/b.ts'), file('index.html'), file('src/a.ts')];
+    const snapshot = buildProjectSnapshot(files, { maxTokens: 1000 });
+    expect(snapshot.included).toEqual(['index.html', 'src/a.ts', 'src/b.ts']);
+    expect(snapshot.omitted).toEqual([]);
+    expect(snapshot.text).toContain(`--- src/a.ts ---\n${files[2].content}\n--- end of src/a.ts ---`);
+    expect(snapshot.text).not.toContain('Other files');
+  });
+
+  it('leaves out lockfiles, build output and binary assets', () => {
+    const snapshot = buildProjectSnapshot([
+      file('src/App.tsx'),
+      file('package-lock.json'),
+      file('dist/index.js'),
+      file('node_modules/react/index.js'),
+      file('public/logo.PNG'),
+    ], { maxTokens: 1000 });
+    expect(snapshot.included).toEqual(['src/App.tsx']);
+    expect(snapshot.omitted).toEqual([]);
+  });
+
+  it('fills the budget by rank: named in the request, open, entry points, source, the rest', () => {
+    const files = [
+      file('README.md'),
+      file('src/utils.ts'),
+      file('src/App.tsx'),
+      file('src/Open.tsx'),
+      file('src/components/Header.tsx'),
+    ];
+    const ranked = ['src/components/Header.tsx', 'src/Open.tsx', 'src/App.tsx', 'src/utils.ts', 'README.md'];
+    const budget = (count: number) =>
+      ranked.slice(0, count).reduce((sum, name) => sum + cost(files.find(f => f.name === name)!), 0);
+    const snapshotOf = (count: number) =>
+      buildProjectSnapshot(files, { maxTokens: budget(count), request: 'Make the header sticky', activeFile: 'src/Open.tsx' });
+
+    expect(snapshotOf(1).included).toEqual(['src/components/Header.tsx']);
+    expect(snapshotOf(2).included).toEqual(['src/components/Header.tsx', 'src/Open.tsx']);
+    expect(snapshotOf(3).included).toEqual(['src/App.tsx', 'src/components/Header.tsx', 'src/Open.tsx']);
+    expect(snapshotOf(4).omitted).toEqual(['README.md']);
+  });
+
+  it('matches requests by path, file name or component name', () => {
+    const files = [file('src/lib/format.ts'), file('src/pages/Settings.tsx'), file('src/index.ts'), file('src/Card.tsx')];
+    // Room for any one of the files, but not two
+    const only = (request: string) =>
+      buildProjectSnapshot(files, { maxTokens: Math.max(...files.map(cost)), request }).included;
+
+    expect(only('Fix src/lib/format.ts')).toEqual(['src/lib/format.ts']);
+    expect(only('Settings.tsx crashes')).toEqual(['src/pages/Settings.tsx']);
+    expect(only('add a toggle to the settings page')).toEqual(['src/pages/Settings.tsx']);
+    // Short or generic names match too much to count
+    expect(only('in the index, show a card')).toEqual(['src/Card.tsx']);
+  });
+
+  it('prefers smaller files within a rank so more of the project fits', () => {
+    const files = [file('src/big.ts', 400), file('src/small.ts', 40), file('src/medium.ts', 120)];
+    const snapshot = buildProjectSnapshot(files, { maxTokens: cost(files[1]) + cost(files[2]) });
+    expect(snapshot.included).toEqual(['src/medium.ts', 'src/small.ts']);
+    expect(snapshot.omitted).toEqual(['src/big.ts']);
+  });
+
+  it('lists files that do not fit by path instead of cutting them off', () => {
+    const huge = file('src/data.ts', 40_000);
+    const snapshot = buildProjectSnapshot([huge, file('src/App.tsx'), file('src/z.ts', 4000)], { maxTokens: 100 });
+    expect(snapshot.included).toEqual(['src/App.tsx']);
+    expect(snapshot.omitted).toEqual(['src/data.ts', 'src/z.ts']);
+    expect(snapshot.text).not.toContain(huge.content);
+    expect(snapshot.text).toContain('Other files, not shown to save space (keep them unless asked): src/data.ts, src/z.ts');
+  });
+
+  it('lists a single file over 8k tokens even when the budget has room', () => {
+    const huge = file('src/data.ts', 40_000);
+    const snapshot = buildProjectSnapshot([huge], { maxTokens: 32_000 });
+    expect(snapshot.included).toEqual([]);
+    expect(snapshot.omitted).toEqual(['src/data.ts']);
+  });
+});
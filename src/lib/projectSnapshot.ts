@@ -0,0 +1,99 @@
+// A compact copy of the project's current files, sent with every chat turn so the model
+// edits the code as it is now (after edits in the editor or a restored version) rather
+// than what it last wrote. Files that don't fit the budget are listed by path only.
+import { CodeFile } from '@/components/code/CodePreview';
+import { estimateTokens } from './contextBuilder';
+
+export interface ProjectSnapshot {
+  // Empty when the project has no files
+  text: string;
+  included: string[];
+  omitted: string[];
+}
+
+interface SnapshotOptions {
+  maxTokens: number;
+  // The message being sent; files it names are included first
+  request?: string;
+  // The file open in the editor
+  activeFile?: string;
+}
+
+// The snapshot's share of the context window, so long projects still leave room for the conversation
+const CONTEXT_SHARE = 1 / 3;
+const MAX_SNAPSHOT_TOKENS = 32_000;
+
+// A single file bigger than this is listed rather than crowding out everything else
+const MAX_FILE_TOKENS = 8_000;
+
+// Lockfiles, build output and binary assets aren't worth their tokens
+const SKIPPED_FILES = [
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$/,
+  /(^|\/)(node_modules|dist|build)\//,
+  /\.(png|jpe?g|gif|webp|ico|bmp|woff2?|ttf|otf|eot|mp3|mp4|webm|zip|pdf)$/i,
+];
+
+// The files most requests end up touching
+const ENTRY_FILES = ['src/App.tsx', 'src/main.tsx', 'src/index.css', 'index.html', 'package.json'];
+
+export function snapshotBudget(contextWindow: number): number {
+  return Math.min(MAX_SNAPSHOT_TOKENS, Math.floor(contextWindow * CONTEXT_SHARE));
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+// Named by path, by file name, or by component name ("the Header" matches src/components/Header.tsx)
+function isMentioned(path: string, request: string): boolean {
+  if (request.includes(path)) return true;
+  const name = baseName(path);
+  if (request.includes(name)) return true;
+  const stem = name.replace(/\.[^.]+$/, '');
+  if (stem.length < 4 || stem === 'index') return false;
+  return new RegExp(`\\b${stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(request);
+}
+
+// Lower ranks go first: named in the request, open in the editor, entry points, other source files
+function rank(file: CodeFile, { request = '', activeFile }: SnapshotOptions): number {
+  if (request && isMentioned(file.name, request)) return 0;
+  if (file.name === activeFile) return 1;
+  if (ENTRY_FILES.includes(file.name)) return 2;
+  if (file.name.startsWith('src/')) return 3;
+  return 4;
+}
+
+function formatFile(file: CodeFile): string {
+  return `\n--- ${file.name} ---\n${file.content}\n--- end of ${file.name} ---\n`;
+}
+
+export function buildProjectSnapshot(files: CodeFile[], options: SnapshotOptions): ProjectSnapshot {
+  const candidates = files
+    .filter(file => !SKIPPED_FILES.some(pattern => pattern.test(file.name)))
+    .map(file => ({ file, rank: rank(file, options), tokens: estimateTokens(formatFile(file)) }))
+    // Within a rank, smaller files first so more of the project fits
+    .sort((a, b) => a.rank - b.rank || a.tokens - b.tokens);
+
+  const included: CodeFile[] = [];
+  const omitted: string[] = [];
+  let used = 0;
+  for (const { file, tokens } of candidates) {
+    if (tokens <= MAX_FILE_TOKENS && used + tokens <= options.maxTokens) {
+      included.push(file);
+      used += tokens;
+    } else {
+      omitted.push(file.name);
+    }
+  }
+
+  if (included.length === 0 && omitted.length === 0) return { text: '', included: [], omitted: [] };
+
+  // Back in path order, which reads like a file tree
+  included.sort((a, b) => a.name.localeCompare(b.name));
+  omitted.sort((a, b) => a.localeCompare(b));
+  let text = included.map(formatFile).join('');
+  if (omitted.length > 0) {
+    text += `\nOther files, not shown to save space (keep them unless asked): ${omitted.join(', ')}\n`;
+  }
+  return { text, included: included.map(f => f.name), omitted };
+}
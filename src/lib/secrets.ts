@@ -0,0 +1,32 @@
+// Client for the secrets edge function. Secret values only ever travel from the
+// browser to the vault; listing returns names, never values.
+import { invokeFunction } from './edgeFunctions';
+
+export type DeployPlatform = 'vercel' | 'netlify';
+
+export function apiProfileSecretName(profileId: string): string {
+  return `api-profile:${profileId}`;
+}
+
+export function deployTokenSecretName(platform: DeployPlatform): string {
+  return `deploy:${platform}`;
+}
+
+export async function listSecrets(): Promise<string[]> {
+  const { secrets } = await invokeFunction<{ secrets: { name: string }[] }>('secrets', { action: 'list' });
+  return secrets.map(s => s.name);
+}
+
+// Where an API profile's key may be sent; saved with the key, and only replaced with it
+export interface SecretEndpoint {
+  provider: string;
+  baseUrl?: string;
+}
+
+export async function setSecret(name: string, value: string, endpoint?: SecretEndpoint): Promise<void> {
+  await invokeFunction('secrets', { action: 'set', name, value, ...endpoint });
+}
+
+export async function deleteSecret(name: string): Promise<void> {
+  await invokeFunction('secrets', { action: 'delete', name });
+}
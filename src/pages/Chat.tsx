@@ -4,7 +4,11 @@ import { ChatPanel } from '@/components/chat/ChatPanel';
 import { ConversationHistory } from '@/components/chat/ConversationHistory';
 import { FileExplorer } from '@/components/files/FileExplorer';
 import { ExportDialog } from '@/components/export/ExportDialog';
+import { ImportProjectDialog } from '@/components/projects/ImportProjectDialog';
 import { useAuth } from '@/hooks/useAuth';
+import { useProjectFiles, UserFileEdit } from '@/hooks/useProjectFiles';
+import { useFileEdits } from '@/hooks/useFileEdits';
+import { useToast } from '@/hooks/use-toast';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -17,6 +21,7 @@ import {
   PanelLeft,
   Settings,
   Download,
+  Upload,
 } from 'lucide-react';
 import { 
   Sidebar,
@@ -28,6 +33,8 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import logo from '@/assets/logo.png';
 import { CodeFile } from '@/components/code/CodePreview';
+import { FileOperation } from '@/lib/fileOperations';
+import { ImportSource, mergeImportedFiles } from '@/lib/projectImport';
 import { cn } from '@/lib/utils';
 
 export default function Chat() {
@@ -35,12 +42,18 @@ export default function Chat() {
   const { user, loading: authLoading } = useAuth();
   const queryClient = useQueryClient();
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [leftSidebarTab, setLeftSidebarTab] = useState<'chats' | 'files'>('chats');
   const [showLeftSidebar, setShowLeftSidebar] = useState(true);
   const [activeConversationId, setActiveConversationId] = useState<string | undefined>();
-  const [codeFiles, setCodeFiles] = useState<CodeFile[]>([]);
   const [activeFile, setActiveFile] = useState<string>('');
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
+
+  const {
+    files: codeFiles, isLoading: filesLoading, applyOperations, replaceFiles, saveUserVersion,
+  } = useProjectFiles(projectId);
 
   // Fetch project details
   const { data: project, isLoading: projectLoading } = useQuery({
@@ -119,14 +132,57 @@ export default function Chat() {
     }
   }, [projectId, user, queryClient]);
 
-  const handleFilesChange = useCallback((files: CodeFile[]) => {
-    setCodeFiles(files);
-  }, []);
+  const { mutateAsync: saveFileOperations } = applyOperations;
+  const { mutate: replaceProjectFiles } = replaceFiles;
+
+  const handleApplyOperations = useCallback(async (operations: FileOperation[], messageId?: string) => {
+    await saveFileOperations({ operations, messageId });
+  }, [saveFileOperations]);
+
+  const handleReplaceFiles = useCallback((files: CodeFile[]) => {
+    replaceProjectFiles({ files });
+  }, [replaceProjectFiles]);
 
   const handleFileSelect = useCallback((fileName: string) => {
     setActiveFile(fileName);
   }, []);
 
+  const { mutateAsync: saveEditsAsVersion } = saveUserVersion;
+
+  const handleSaveEdits = useCallback(async (edits: UserFileEdit[], { force }: { force: boolean }) => {
+    await saveEditsAsVersion({ edits, conversationId: activeConversationId, force });
+  }, [saveEditsAsVersion, activeConversationId]);
+
+  const handleSaveFileEdits = useCallback(async (operations: FileOperation[]) => {
+    await saveFileOperations({ operations });
+  }, [saveFileOperations]);
+
+  const fileEdits = useFileEdits({
+    files: codeFiles,
+    apply: handleSaveFileEdits,
+    activeFile,
+    onActiveFileChange: handleFileSelect,
+  });
+
+  const handleImportDropped = useCallback((source: ImportSource) => {
+    setImportSource(source);
+    setShowImportDialog(true);
+  }, []);
+
+  const handleImportOpenChange = useCallback((open: boolean) => {
+    setShowImportDialog(open);
+    if (!open) setImportSource(null);
+  }, []);
+
+  const handleImport = useCallback(async ({ files, replace }: { files: CodeFile[]; replace: boolean }) => {
+    await replaceFiles.mutateAsync({ files: mergeImportedFiles(codeFiles, files, replace) });
+    const entry = files.find(f => f.name === 'src/App.tsx') ?? files[0];
+    if (entry) setActiveFile(entry.name);
+    setLeftSidebarTab('files');
+    setShowLeftSidebar(true);
+    toast({ title: 'Code imported', description: `${files.length} files added to the project` });
+  }, [replaceFiles, codeFiles, toast]);
+
   if (authLoading || projectLoading || conversationLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -179,6 +235,16 @@ export default function Chat() {
             <h1 className="font-semibold text-sm truncate">{project.name}</h1>
           </div>
 
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 gap-1.5"
+            onClick={() => setShowImportDialog(true)}
+          >
+            <Upload className="w-4 h-4" />
+            <span className="hidden sm:inline">Import</span>
+          </Button>
+
           <Button 
             variant="outline" 
             size="sm" 
@@ -206,6 +272,14 @@ export default function Chat() {
         projectName={project.name}
       />
 
+      <ImportProjectDialog
+        open={showImportDialog}
+        onOpenChange={handleImportOpenChange}
+        source={importSource}
+        existingFileCount={codeFiles.length}
+        onImport={handleImport}
+      />
+
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
         {/* Left Sidebar */}
@@ -241,6 +315,12 @@ export default function Chat() {
                   files={codeFiles}
                   activeFile={activeFile}
                   onFileSelect={handleFileSelect}
+                  onFileCreate={fileEdits.createEntry}
+                  onFileDelete={fileEdits.deleteEntry}
+                  onFileRename={fileEdits.renameEntry}
+                  onFileMove={fileEdits.moveEntry}
+                  onUndo={fileEdits.undo}
+                  undoLabel={fileEdits.undoLabel}
                 />
               </TabsContent>
             </Tabs>
@@ -250,10 +330,16 @@ export default function Chat() {
         {/* Chat Panel */}
         <main className="flex-1 flex flex-col overflow-hidden">
           <ChatPanel 
+            projectId={projectId}
             conversationId={activeConversationId}
-            onFilesChange={handleFilesChange}
+            files={codeFiles}
+            isFilesLoading={filesLoading}
+            onApplyOperations={handleApplyOperations}
+            onReplaceFiles={handleReplaceFiles}
             activeFile={activeFile}
             onFileSelect={handleFileSelect}
+            onImportDropped={handleImportDropped}
+            onSaveEdits={handleSaveEdits}
           />
         </main>
       </div>
@@ -1,7 +1,7 @@
 import { Header } from '@/components/layout/Header';
 import { useAuth } from '@/hooks/useAuth';
 import { Navigate } from 'react-router-dom';
-import { Loader2, User, Shield, Key, Palette, Database } from 'lucide-react';
+import { Loader2, User, Shield, Key, Palette, Database, BarChart3 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,6 +9,8 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CustomApiSettings } from '@/components/settings/CustomApiSettings';
 import { DatabaseSettings } from '@/components/settings/DatabaseSettings';
+import { PreviewSettings } from '@/components/settings/PreviewSettings';
+import { UsageSettings } from '@/components/settings/UsageSettings';
 
 export default function Settings() {
   const { user, loading, signOut } = useAuth();
@@ -31,7 +33,7 @@ export default function Settings() {
       <main className="flex-1 container py-8">
         <div className="max-w-3xl mx-auto">
           <h1 className="text-3xl font-bold mb-2 text-gradient">Settings</h1>
-          <p className="text-muted-foreground mb-8">Manage your account, AI, and database preferences</p>
+          <p className="text-muted-foreground mb-8">Manage your account, AI, usage, and database preferences</p>
 
           <Tabs defaultValue="account" className="space-y-6">
             <TabsList className="bg-secondary/50">
@@ -43,6 +45,10 @@ export default function Settings() {
                 <Key className="w-4 h-4" />
                 AI Settings
               </TabsTrigger>
+              <TabsTrigger value="usage" className="gap-2">
+                <BarChart3 className="w-4 h-4" />
+                Usage
+              </TabsTrigger>
               <TabsTrigger value="database" className="gap-2">
                 <Database className="w-4 h-4" />
                 Database
@@ -88,6 +94,7 @@ export default function Settings() {
 
             <TabsContent value="ai" className="space-y-6">
               <CustomApiSettings />
+              <PreviewSettings />
               
               <Card>
                 <CardHeader>
@@ -127,6 +134,10 @@ export default function Settings() {
               </Card>
             </TabsContent>
 
+            <TabsContent value="usage" className="space-y-6">
+              <UsageSettings />
+            </TabsContent>
+
             <TabsContent value="database" className="space-y-6">
               <DatabaseSettings />
             </TabsContent>
@@ -0,0 +1,61 @@
+// Identifies the signed-in user behind a request and provides the service-role
+// client for tables that are closed to the browser.
+import { createClient, SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError } from "./http.ts";
+
+// Resolves the user from the request's JWT; null for anonymous or invalid tokens
+export async function getRequestUser(req: Request): Promise<User | null> {
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) return null;
+
+  const client = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data, error } = await client.auth.getUser();
+  return error ? null : data.user;
+}
+
+// Like getRequestUser, but answers 401 for anonymous callers. The anon key is
+// public, so accepting it would let anyone spend the shared gateway key.
+export async function requireUser(req: Request): Promise<User> {
+  const user = await getRequestUser(req);
+  if (!user) throw new HttpError(401, "Sign in to continue");
+  return user;
+}
+
+export function createAdminClient(): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+}
+
+// Loads a conversation after checking it, and the project it belongs to, are the user's.
+// Answers 404 rather than 403 so other users' ids can't be probed.
+export async function getOwnedConversation(
+  admin: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<{ projectId: string | null }> {
+  const { data: conversation, error } = await admin
+    .from("conversations")
+    .select("project_id")
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!conversation) throw new HttpError(404, "Conversation not found");
+  if (!conversation.project_id) return { projectId: null };
+
+  const { data: project, error: projectError } = await admin
+    .from("projects")
+    .select("id")
+    .eq("id", conversation.project_id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (projectError) throw projectError;
+  if (!project) throw new HttpError(404, "Conversation not found");
+  return { projectId: conversation.project_id };
+}
@@ -0,0 +1,109 @@
+// Checks for provider base URLs chosen by users. The chat function fetches them from
+// inside Supabase's network, so they must not point at the function's own host, the
+// private network around it or cloud metadata services.
+import { HttpError } from "./http.ts";
+
+const LOCAL_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+// [network, prefix length] in IPv4 space that is never a public model server
+const PRIVATE_IPV4: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+];
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some(p => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPrivateIPv4(value: number): boolean {
+  return PRIVATE_IPV4.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(parseIPv4(network)! / size);
+  });
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it isn't one
+function parseIPv6(address: string): number[] | null {
+  let text = address;
+  // A trailing dotted IPv4 part (e.g. ::ffff:127.0.0.1) stands for the last two groups
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[2]);
+    if (v4 === null) return null;
+    text = `${dotted[1]}${Math.floor(v4 / 65536).toString(16)}:${(v4 % 65536).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const toGroups = (part: string) => (part ? part.split(":") : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (groups.some(g => !/^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return groups.map(g => parseInt(g, 16));
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const [first] = groups;
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every(g => g === 0) && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) addresses reach the IPv4 host
+  if (groups.slice(0, 5).every(g => g === 0) && groups[5] === 0xffff) {
+    return isPrivateIPv4(groups[6] * 65536 + groups[7]);
+  }
+  // Unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00;
+}
+
+function isPrivateAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4 !== null) return isPrivateIPv4(v4);
+  const v6 = parseIPv6(address);
+  return v6 === null || isPrivateIPv6(v6);
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return lookups.flatMap(lookup => (lookup.status === "fulfilled" ? lookup.value : []));
+}
+
+// Throws a 400 unless `url` is an http(s) URL whose host is publicly reachable. Hosts
+// given by name are resolved, and every address they resolve to has to be public.
+export async function assertPublicEndpoint(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new HttpError(400, "Base URL is not a valid URL");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new HttpError(400, "Base URL must use http or https");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  const privateHost = new HttpError(400, "Base URL must point at a publicly reachable server, not a local or private address");
+  if (hostname === "localhost" || LOCAL_SUFFIXES.some(suffix => hostname.endsWith(suffix))) throw privateHost;
+
+  if (parseIPv4(hostname) !== null || hostname.includes(":")) {
+    if (isPrivateAddress(hostname)) throw privateHost;
+    return;
+  }
+
+  const addresses = await resolveHost(hostname);
+  if (addresses.length === 0) throw new HttpError(400, `Could not resolve ${hostname}`);
+  if (addresses.some(isPrivateAddress)) throw privateHost;
+}
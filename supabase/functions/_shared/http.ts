@@ -0,0 +1,20 @@
+// Response helpers shared by the edge functions
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "x-message-id",
+};
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Thrown from request handling to answer with a specific status instead of a 500
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
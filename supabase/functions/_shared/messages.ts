@@ -0,0 +1,118 @@
+// Server-side persistence of assistant replies. The row is created before the
+// first token and kept up to date while streaming, so history survives closed
+// tabs and dropped connections, and clients reattach to it through realtime.
+//
+// The row's status is also how a generation is stopped: the abort action marks it
+// aborted, and the next flush from whichever instance is generating notices that.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { StreamEvent, StreamObserver, StreamOutcome } from "./stream.ts";
+
+export type MessageStatus = "streaming" | "complete" | "aborted" | "error";
+
+// How often partial content is written while the reply streams
+const FLUSH_INTERVAL_MS = 1000;
+
+// Postgres unique_violation
+const DUPLICATE_KEY = "23505";
+
+// Creates the reply's row under the id the client chose for it. Resolves to null when
+// the client already stopped the reply, which leaves an aborted row with that id.
+export async function createAssistantMessage(
+  admin: SupabaseClient,
+  conversationId: string,
+  messageId?: string
+): Promise<string | null> {
+  const { data, error } = await admin
+    .from("messages")
+    .insert({ id: messageId, conversation_id: conversationId, role: "assistant", content: "", status: "streaming" })
+    .select("id")
+    .single();
+  if (error?.code === DUPLICATE_KEY) return null;
+  if (error) throw error;
+  return data.id;
+}
+
+const OUTCOME_STATUS: Record<StreamOutcome, MessageStatus> = {
+  complete: "complete",
+  error: "error",
+  aborted: "aborted",
+};
+
+// Marks a running generation as aborted; false if it had already finished. Stop can
+// come before the reply's row exists, so a missing row is created already aborted and
+// the generation that would have written it stops before it starts streaming.
+export async function abortAssistantMessage(
+  admin: SupabaseClient,
+  conversationId: string,
+  messageId: string
+): Promise<boolean> {
+  const { data, error } = await admin
+    .from("messages")
+    .update({ status: "aborted" })
+    .eq("id", messageId)
+    .eq("conversation_id", conversationId)
+    .eq("status", "streaming")
+    .select("id");
+  if (error) throw error;
+  if ((data ?? []).length > 0) return true;
+
+  const { data: inserted, error: insertError } = await admin
+    .from("messages")
+    .upsert(
+      { id: messageId, conversation_id: conversationId, role: "assistant", content: "", status: "aborted" },
+      { onConflict: "id", ignoreDuplicates: true }
+    )
+    .select("id");
+  if (insertError) throw insertError;
+  return (inserted ?? []).length > 0;
+}
+
+// Writes the reply's text to its message row as it streams and sets the final status at
+// the end. `abort` fires when a flush finds the row no longer streaming.
+export function persistAssistantMessage(
+  admin: SupabaseClient,
+  messageId: string,
+  abort: AbortController
+): StreamObserver {
+  let content = "";
+  let lastFlush = Date.now();
+  let flushing: Promise<void> | null = null;
+
+  const flush = async () => {
+    const { data, error } = await admin
+      .from("messages")
+      .update({ content })
+      .eq("id", messageId)
+      .eq("status", "streaming")
+      .select("id");
+    if (error) {
+      console.error("Failed to save assistant message:", error);
+    } else if ((data ?? []).length === 0) {
+      abort.abort();
+    }
+  };
+
+  return {
+    onEvent(event: StreamEvent) {
+      if (event.type !== "text") return;
+      content += event.text;
+
+      if (!flushing && Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+        lastFlush = Date.now();
+        flushing = flush().finally(() => {
+          flushing = null;
+        });
+      }
+    },
+    async onClose(outcome: StreamOutcome) {
+      await flushing;
+      // A reply stopped while it was still generating stays aborted
+      const { error } = await admin
+        .from("messages")
+        .update({ content, status: OUTCOME_STATUS[outcome] })
+        .eq("id", messageId)
+        .eq("status", "streaming");
+      if (error) console.error("Failed to save assistant message:", error);
+    },
+  };
+}
@@ -0,0 +1,112 @@
+// Anthropic Messages API
+import { ChunkParser, toFinishReason } from "../stream.ts";
+import type { ProviderAdapter, ProviderMessage, ProviderModel } from "./types.ts";
+import { apiRoot, endpoint, mapHttpError } from "./utils.ts";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+
+interface AnthropicChunk {
+  type: string;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+// message_start carries input usage, message_delta the output usage and stop reason;
+// text arrives in content_block_delta events
+export const parseAnthropicChunk: ChunkParser = (data) => {
+  const chunk = data as AnthropicChunk;
+  switch (chunk.type) {
+    case "message_start":
+      return chunk.message?.usage
+        ? [{ type: "usage", inputTokens: chunk.message.usage.input_tokens, outputTokens: chunk.message.usage.output_tokens }]
+        : [];
+    case "content_block_delta":
+      return chunk.delta?.type === "text_delta" && chunk.delta.text
+        ? [{ type: "text", text: chunk.delta.text }]
+        : [];
+    case "message_delta": {
+      const reason = toFinishReason(chunk.delta?.stop_reason);
+      return [
+        ...(chunk.usage ? [{ type: "usage" as const, outputTokens: chunk.usage.output_tokens }] : []),
+        ...(reason ? [{ type: "finish" as const, reason }] : []),
+      ];
+    }
+    case "error":
+      return [{ type: "error", message: chunk.error?.message ?? "Anthropic stream error" }];
+    default:
+      return [];
+  }
+};
+
+function headers(apiKey?: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "x-api-key": apiKey ?? "",
+    "anthropic-version": ANTHROPIC_VERSION,
+  };
+}
+
+// Images go before the text, as Anthropic recommends
+function toAnthropicMessage({ role, content, images }: ProviderMessage) {
+  if (!images?.length) return { role, content };
+  return {
+    role,
+    content: [
+      ...images.map(image => ({
+        type: "image",
+        source: { type: "base64", media_type: image.mediaType, data: image.data },
+      })),
+      { type: "text", text: content },
+    ],
+  };
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+  name: "Anthropic",
+  description: "Claude models from the Anthropic API",
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  defaultModel: "claude-3-5-sonnet-20241022",
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  contextWindow: 200_000,
+  supportsVision: true,
+  suggestedModels: [
+    { id: "claude-3-5-sonnet-20241022", name: "Claude 3.5 Sonnet" },
+    { id: "claude-3-5-haiku-20241022", name: "Claude 3.5 Haiku" },
+  ],
+
+  buildRequest(messages, systemPrompt, config) {
+    return {
+      url: endpoint(config, DEFAULT_BASE_URL, "/messages"),
+      init: {
+        method: "POST",
+        headers: headers(config.apiKey),
+        body: JSON.stringify({
+          model: config.modelId || anthropicAdapter.defaultModel,
+          max_tokens: 8192,
+          system: systemPrompt,
+          messages: messages.map(toAnthropicMessage),
+          stream: true,
+        }),
+      },
+    };
+  },
+
+  parseChunk: parseAnthropicChunk,
+
+  mapError: (status, body) => mapHttpError("Anthropic", status, body),
+
+  modelsRequest(config) {
+    const root = apiRoot(config, DEFAULT_BASE_URL).replace(/\/messages$/, "");
+    return { url: `${root}/models`, init: { headers: headers(config.apiKey) } };
+  },
+
+  parseModels(body) {
+    const data = (body as { data?: { id: string; display_name?: string }[] }).data ?? [];
+    return data.map((model): ProviderModel => ({ id: model.id, name: model.display_name || model.id }));
+  },
+};
@@ -0,0 +1,107 @@
+// Models served through the Lovable AI gateway, available to everyone without
+// their own API key. The gateway speaks the OpenAI protocol.
+import { createOpenAICompatibleAdapter } from "./openai.ts";
+import type { ProviderAdapter } from "./types.ts";
+
+export interface BuiltInModel {
+  id: string;
+  name: string;
+  provider: "google" | "openai";
+  description: string;
+  speed: "fast" | "balanced" | "slow";
+  quality: "standard" | "high" | "premium";
+  contextWindow: number;
+  supportsVision: boolean;
+}
+
+export const BUILT_IN_MODELS: BuiltInModel[] = [
+  {
+    id: "google/gemini-3-flash-preview",
+    name: "Gemini 3 Flash",
+    provider: "google",
+    description: "Fast & efficient for most tasks",
+    speed: "fast",
+    quality: "high",
+    contextWindow: 1_048_576,
+    supportsVision: true,
+  },
+  {
+    id: "google/gemini-2.5-flash",
+    name: "Gemini 2.5 Flash",
+    provider: "google",
+    description: "Balanced speed and reasoning",
+    speed: "balanced",
+    quality: "high",
+    contextWindow: 1_048_576,
+    supportsVision: true,
+  },
+  {
+    id: "google/gemini-2.5-pro",
+    name: "Gemini 2.5 Pro",
+    provider: "google",
+    description: "Best for complex code generation",
+    speed: "slow",
+    quality: "premium",
+    contextWindow: 1_048_576,
+    supportsVision: true,
+  },
+  {
+    id: "google/gemini-3-pro-preview",
+    name: "Gemini 3 Pro",
+    provider: "google",
+    description: "Next-gen complex reasoning",
+    speed: "slow",
+    quality: "premium",
+    contextWindow: 1_048_576,
+    supportsVision: true,
+  },
+  {
+    id: "openai/gpt-5-mini",
+    name: "GPT-5 Mini",
+    provider: "openai",
+    description: "OpenAI balanced performance",
+    speed: "balanced",
+    quality: "high",
+    contextWindow: 400_000,
+    supportsVision: true,
+  },
+  {
+    id: "openai/gpt-5",
+    name: "GPT-5",
+    provider: "openai",
+    description: "OpenAI premium reasoning",
+    speed: "slow",
+    quality: "premium",
+    contextWindow: 400_000,
+    supportsVision: true,
+  },
+];
+
+export const DEFAULT_MODEL = "google/gemini-3-flash-preview";
+
+export function isBuiltInModel(id: string): boolean {
+  return BUILT_IN_MODELS.some(model => model.id === id);
+}
+
+const gateway = createOpenAICompatibleAdapter({
+  id: "builtin",
+  name: "Eternity Code AI",
+  description: "Built-in models",
+  defaultBaseUrl: "https://ai.gateway.lovable.dev/v1",
+  defaultModel: DEFAULT_MODEL,
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  streamUsage: true,
+  suggestedModels: BUILT_IN_MODELS.map(({ id, name }) => ({ id, name })),
+  contextWindow: 128_000,
+  supportsVision: true,
+});
+
+export const builtInAdapter: ProviderAdapter = {
+  ...gateway,
+  mapError(status) {
+    if (status === 429) return { status, message: "Rate limit exceeded. Please try again in a moment." };
+    if (status === 402) return { status, message: "Usage limit reached. Please add credits to continue." };
+    return { status: 500, message: "Failed to connect to AI service" };
+  },
+};
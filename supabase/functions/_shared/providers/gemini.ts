@@ -0,0 +1,108 @@
+// Google Gemini API (generativelanguage.googleapis.com)
+import { ChunkParser, StreamEvent, toFinishReason } from "../stream.ts";
+import type { ProviderAdapter, ProviderModel } from "./types.ts";
+import { apiRoot, mapHttpError } from "./utils.ts";
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+interface GeminiChunk {
+  error?: { message?: string };
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  promptFeedback?: { blockReason?: string };
+}
+
+// streamGenerateContent with alt=sse: each chunk is a GenerateContentResponse
+export const parseGeminiChunk: ChunkParser = (data) => {
+  const chunk = data as GeminiChunk;
+  const events: StreamEvent[] = [];
+  if (chunk.error) {
+    events.push({ type: "error", message: chunk.error.message ?? "Gemini stream error" });
+    return events;
+  }
+
+  const candidate = chunk.candidates?.[0];
+  const text = (candidate?.content?.parts ?? [])
+    .map(part => part.text ?? "")
+    .join("");
+  if (text) events.push({ type: "text", text });
+
+  if (chunk.usageMetadata) {
+    events.push({
+      type: "usage",
+      inputTokens: chunk.usageMetadata.promptTokenCount,
+      outputTokens: chunk.usageMetadata.candidatesTokenCount,
+    });
+  }
+
+  const reason = toFinishReason(candidate?.finishReason);
+  if (reason && candidate?.finishReason !== "FINISH_REASON_UNSPECIFIED") {
+    events.push({ type: "finish", reason });
+  }
+  if (chunk.promptFeedback?.blockReason) {
+    events.push({ type: "error", message: `Prompt blocked: ${chunk.promptFeedback.blockReason}` });
+  }
+  return events;
+};
+
+function headers(apiKey?: string): Record<string, string> {
+  return { "Content-Type": "application/json", "x-goog-api-key": apiKey ?? "" };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  id: "google",
+  name: "Google AI",
+  description: "Gemini models from Google AI Studio",
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  defaultModel: "gemini-2.0-flash",
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  contextWindow: 1_000_000,
+  supportsVision: true,
+  suggestedModels: [
+    { id: "gemini-2.0-flash", name: "Gemini 2.0 Flash" },
+    { id: "gemini-1.5-pro", name: "Gemini 1.5 Pro" },
+  ],
+
+  buildRequest(messages, systemPrompt, config) {
+    const model = config.modelId || geminiAdapter.defaultModel;
+    return {
+      // alt=sse makes Gemini stream server-sent events instead of one long JSON array
+      url: `${apiRoot(config, DEFAULT_BASE_URL)}/models/${model}:streamGenerateContent?alt=sse`,
+      init: {
+        method: "POST",
+        headers: headers(config.apiKey),
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: systemPrompt }] },
+          contents: messages.map(m => ({
+            role: m.role === "assistant" ? "model" : "user",
+            parts: [
+              { text: m.content },
+              ...(m.images ?? []).map(image => ({ inline_data: { mime_type: image.mediaType, data: image.data } })),
+            ],
+          })),
+        }),
+      },
+    };
+  },
+
+  parseChunk: parseGeminiChunk,
+
+  mapError: (status, body) => mapHttpError("Google AI", status, body),
+
+  modelsRequest(config) {
+    return { url: `${apiRoot(config, DEFAULT_BASE_URL)}/models`, init: { headers: headers(config.apiKey) } };
+  },
+
+  parseModels(body) {
+    const models = (body as {
+      models?: { name: string; displayName?: string; supportedGenerationMethods?: string[] }[];
+    }).models ?? [];
+    return models
+      .filter(model => model.supportedGenerationMethods?.includes("generateContent") ?? true)
+      .map((model): ProviderModel => {
+        const id = model.name.replace(/^models\//, "");
+        return { id, name: model.displayName || id };
+      });
+  },
+};
@@ -0,0 +1,40 @@
+import { anthropicAdapter } from "./anthropic.ts";
+import { geminiAdapter } from "./gemini.ts";
+import { ollamaAdapter } from "./ollama.ts";
+import { customAdapter, openaiAdapter } from "./openai.ts";
+import type { ProviderAdapter, ProviderId } from "./types.ts";
+
+export const PROVIDERS: Record<ProviderId, ProviderAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  google: geminiAdapter,
+  ollama: ollamaAdapter,
+  custom: customAdapter,
+};
+
+// In the order shown in Settings
+export const PROVIDER_LIST: ProviderAdapter[] = [
+  openaiAdapter,
+  anthropicAdapter,
+  geminiAdapter,
+  ollamaAdapter,
+  customAdapter,
+];
+
+export function getProvider(id: string | undefined): ProviderAdapter | undefined {
+  return id && id in PROVIDERS ? PROVIDERS[id as ProviderId] : undefined;
+}
+
+export { createOpenAICompatibleAdapter } from "./openai.ts";
+export { BUILT_IN_MODELS, DEFAULT_MODEL, builtInAdapter, isBuiltInModel } from "./builtin.ts";
+export type { BuiltInModel } from "./builtin.ts";
+export type {
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderError,
+  ProviderId,
+  ProviderImage,
+  ProviderMessage,
+  ProviderModel,
+  ProviderRequest,
+} from "./types.ts";
@@ -0,0 +1,23 @@
+// Self-hosted model servers: Ollama and llama.cpp's llama-server both expose an
+// OpenAI-compatible /v1 API, so this is the OpenAI adapter without a key. The chat
+// function runs in the cloud and can't reach localhost or a private network, so there
+// is no default URL: the server has to be exposed publicly (e.g. through a tunnel).
+import { createOpenAICompatibleAdapter } from "./openai.ts";
+
+export const ollamaAdapter = createOpenAICompatibleAdapter({
+  id: "ollama",
+  name: "Self-hosted (Ollama / llama.cpp)",
+  description: "Your own model server with an OpenAI-compatible API, reachable from the internet",
+  defaultBaseUrl: "",
+  defaultModel: "llama3.1",
+  requiresApiKey: false,
+  requiresBaseUrl: true,
+  // Ollama's default num_ctx; raise it on the server for longer conversations
+  contextWindow: 8_192,
+  // Only some local models (e.g. LLaVA) read images, and the default ones don't
+  supportsVision: false,
+  suggestedModels: [
+    { id: "llama3.1", name: "Llama 3.1" },
+    { id: "qwen2.5-coder", name: "Qwen 2.5 Coder" },
+  ],
+});
@@ -0,0 +1,135 @@
+// OpenAI chat completions, and every server that speaks the same protocol
+// (custom gateways, Ollama and llama.cpp's /v1 endpoints, the Lovable AI gateway)
+import { ChunkParser, StreamEvent, toFinishReason } from "../stream.ts";
+import type { ProviderAdapter, ProviderMessage, ProviderModel } from "./types.ts";
+import { apiRoot, endpoint, mapHttpError } from "./utils.ts";
+
+interface OpenAIChunk {
+  error?: { message?: string };
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export const parseOpenAIChunk: ChunkParser = (data) => {
+  const chunk = data as OpenAIChunk;
+  const events: StreamEvent[] = [];
+  if (chunk.error) {
+    events.push({ type: "error", message: chunk.error.message ?? "Stream error" });
+    return events;
+  }
+
+  const choice = chunk.choices?.[0];
+  if (choice?.delta?.content) events.push({ type: "text", text: choice.delta.content });
+
+  const reason = toFinishReason(choice?.finish_reason);
+  if (reason) events.push({ type: "finish", reason });
+
+  if (chunk.usage) {
+    events.push({
+      type: "usage",
+      inputTokens: chunk.usage.prompt_tokens,
+      outputTokens: chunk.usage.completion_tokens,
+    });
+  }
+  return events;
+};
+
+type OpenAICompatibleOptions = Pick<
+  ProviderAdapter,
+  "id" | "name" | "description" | "defaultBaseUrl" | "defaultModel" | "requiresApiKey" | "requiresBaseUrl" | "suggestedModels" | "contextWindow" | "supportsVision"
+> & {
+  // Usage reporting in the stream is an OpenAI extension that not every server accepts
+  streamUsage?: boolean;
+};
+
+// Images become image_url content parts after the text
+function toOpenAIMessage({ role, content, images }: ProviderMessage) {
+  if (!images?.length) return { role, content };
+  return {
+    role,
+    content: [
+      { type: "text", text: content },
+      ...images.map(image => ({
+        type: "image_url",
+        image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+      })),
+    ],
+  };
+}
+
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): ProviderAdapter {
+  const { streamUsage = false, ...info } = options;
+
+  const headers = (apiKey?: string): Record<string, string> => ({
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  });
+
+  return {
+    ...info,
+
+    buildRequest(messages, systemPrompt, config) {
+      return {
+        url: endpoint(config, info.defaultBaseUrl, "/chat/completions"),
+        init: {
+          method: "POST",
+          headers: headers(config.apiKey),
+          body: JSON.stringify({
+            model: config.modelId || info.defaultModel,
+            messages: [{ role: "system", content: systemPrompt }, ...messages.map(toOpenAIMessage)],
+            stream: true,
+            ...(streamUsage ? { stream_options: { include_usage: true } } : {}),
+          }),
+        },
+      };
+    },
+
+    parseChunk: parseOpenAIChunk,
+
+    mapError: (status, body) => mapHttpError(info.name, status, body),
+
+    modelsRequest(config) {
+      const root = apiRoot(config, info.defaultBaseUrl).replace(/\/chat\/completions$/, "");
+      return { url: `${root}/models`, init: { headers: headers(config.apiKey) } };
+    },
+
+    parseModels(body) {
+      const data = (body as { data?: { id: string }[] }).data ?? [];
+      return data
+        .map((model): ProviderModel => ({ id: model.id, name: model.id }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+    },
+  };
+}
+
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  id: "openai",
+  name: "OpenAI",
+  description: "GPT models from the OpenAI API",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  defaultModel: "gpt-4o",
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  streamUsage: true,
+  contextWindow: 128_000,
+  supportsVision: true,
+  suggestedModels: [
+    { id: "gpt-4o", name: "GPT-4o" },
+    { id: "gpt-4o-mini", name: "GPT-4o mini" },
+    { id: "o3-mini", name: "o3-mini" },
+  ],
+});
+
+export const customAdapter = createOpenAICompatibleAdapter({
+  id: "custom",
+  name: "Custom (OpenAI-compatible)",
+  description: "Any server implementing the OpenAI chat completions API",
+  defaultBaseUrl: "",
+  defaultModel: "default",
+  requiresApiKey: true,
+  requiresBaseUrl: true,
+  contextWindow: 32_000,
+  // Unknown servers may not accept content parts, so images are only sent as names
+  supportsVision: false,
+  suggestedModels: [],
+});
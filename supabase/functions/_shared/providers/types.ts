@@ -0,0 +1,68 @@
+// Contract every AI backend implements. Adapters are plain TypeScript with no
+// Deno or browser globals beyond fetch types, so the chat edge function and the
+// settings UI share them; adding a provider means adding one module here and
+// registering it in index.ts.
+import type { ChunkParser } from "../stream.ts";
+
+export type ProviderId = "openai" | "anthropic" | "google" | "ollama" | "custom";
+
+// An image in a user message: base64 data without the data: URL prefix
+export interface ProviderImage {
+  mediaType: string;
+  data: string;
+}
+
+export interface ProviderMessage {
+  role: "user" | "assistant";
+  content: string;
+  // Only sent to providers that support vision
+  images?: ProviderImage[];
+}
+
+// What the user configures for a provider in Settings
+export interface ProviderConfig {
+  apiKey?: string;
+  // API root such as https://api.openai.com/v1; adapters append their own paths
+  baseUrl?: string;
+  modelId?: string;
+}
+
+export interface ProviderRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+}
+
+export interface ProviderError {
+  status: number;
+  message: string;
+}
+
+export interface ProviderAdapter {
+  // "builtin" is the gateway behind the included models, never chosen in Settings
+  id: ProviderId | "builtin";
+  name: string;
+  description: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  // True when there is no sensible default endpoint (generic OpenAI-compatible servers)
+  requiresBaseUrl: boolean;
+  // Suggestions for the settings UI before the live list has been fetched
+  suggestedModels: ProviderModel[];
+  // Tokens a model can read, assumed for the provider's models since APIs don't report it
+  contextWindow: number;
+  // Whether the provider's models accept images in user messages
+  supportsVision: boolean;
+
+  buildRequest(messages: ProviderMessage[], systemPrompt: string, config: ProviderConfig): ProviderRequest;
+  parseChunk: ChunkParser;
+  // Turns a failed upstream response into the status and message returned to the client
+  mapError(status: number, body: string): ProviderError;
+  modelsRequest(config: ProviderConfig): ProviderRequest;
+  parseModels(body: unknown): ProviderModel[];
+}
@@ -0,0 +1,40 @@
+import type { ProviderConfig, ProviderError } from "./types.ts";
+
+// The configured API root without a trailing slash, falling back to the provider default
+export function apiRoot(config: ProviderConfig, defaultBaseUrl: string): string {
+  return (config.baseUrl?.trim() || defaultBaseUrl).replace(/\/+$/, "");
+}
+
+// Older configs stored the full endpoint; only append `path` when it isn't there yet
+export function endpoint(config: ProviderConfig, defaultBaseUrl: string, path: string): string {
+  const root = apiRoot(config, defaultBaseUrl);
+  return root.endsWith(path) ? root : `${root}${path}`;
+}
+
+// Pulls a readable message out of a provider's JSON error body
+export function upstreamErrorMessage(body: string): string | null {
+  try {
+    const parsed = JSON.parse(body);
+    const error = Array.isArray(parsed) ? parsed[0]?.error : parsed.error;
+    if (typeof error === "string") return error;
+    if (typeof error?.message === "string") return error.message;
+    if (typeof parsed.message === "string") return parsed.message;
+  } catch {
+    // Not JSON; fall through to the status-based message
+  }
+  return null;
+}
+
+export function mapHttpError(providerName: string, status: number, body: string): ProviderError {
+  const detail = upstreamErrorMessage(body);
+  if (status === 401 || status === 403) {
+    return { status: 401, message: `${providerName} rejected the API key${detail ? `: ${detail}` : ""}` };
+  }
+  if (status === 404) {
+    return { status: 400, message: `${providerName} model or endpoint not found${detail ? `: ${detail}` : ""}` };
+  }
+  if (status === 429) {
+    return { status: 429, message: "Rate limit exceeded. Please try again in a moment." };
+  }
+  return { status: 500, message: `${providerName} error ${status}${detail ? `: ${detail}` : ""}` };
+}
@@ -0,0 +1,123 @@
+// Per-user secrets (provider API keys, deploy tokens) encrypted with AES-GCM
+// before they reach the user_secrets table. The key lives only in the
+// SECRETS_ENCRYPTION_KEY function secret: 32 random bytes, base64 encoded.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// The secrets the app knows how to use; anything else is rejected
+const SECRET_NAME = /^(api-profile:[0-9a-f-]{36}|deploy:(vercel|netlify))$/;
+
+export function isValidSecretName(name: unknown): name is string {
+  return typeof name === "string" && SECRET_NAME.test(name);
+}
+
+export function apiProfileSecretName(profileId: string): string {
+  return `api-profile:${profileId}`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+function encryptionKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const raw = Deno.env.get("SECRETS_ENCRYPTION_KEY");
+    if (!raw) throw new Error("SECRETS_ENCRYPTION_KEY is not configured");
+    const bytes = fromBase64(raw);
+    if (bytes.length !== 32) throw new Error("SECRETS_ENCRYPTION_KEY must be 32 bytes");
+    cachedKey = crypto.subtle.importKey("raw", bytes, "AES-GCM", false, ["encrypt", "decrypt"]);
+  }
+  return cachedKey;
+}
+
+export async function encryptSecret(value: string): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await encryptionKey(),
+    new TextEncoder().encode(value)
+  );
+  return { ciphertext: toBase64(new Uint8Array(encrypted)), iv: toBase64(iv) };
+}
+
+export async function decryptSecret(ciphertext: string, iv: string): Promise<string> {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    await encryptionKey(),
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+// Reads and decrypts one of a user's secrets; null when it was never stored
+export async function readSecret(admin: SupabaseClient, userId: string, name: string): Promise<string | null> {
+  const { data, error } = await admin
+    .from("user_secrets")
+    .select("ciphertext, iv")
+    .eq("user_id", userId)
+    .eq("name", name)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? await decryptSecret(data.ciphertext, data.iv) : null;
+}
+
+// Where an API profile's key may be sent. Saved together with the key, so a
+// request can't point a stored key at a different server.
+export interface SecretEndpoint {
+  provider: string;
+  baseUrl: string | null;
+}
+
+export interface ApiProfileSecret extends Partial<SecretEndpoint> {
+  apiKey: string;
+}
+
+// An API profile's key and the endpoint saved with it; provider is missing for
+// keys stored before endpoints were kept in the vault
+export async function readApiProfileSecret(
+  admin: SupabaseClient,
+  userId: string,
+  profileId: string
+): Promise<ApiProfileSecret | null> {
+  const { data, error } = await admin
+    .from("user_secrets")
+    .select("ciphertext, iv, provider, base_url")
+    .eq("user_id", userId)
+    .eq("name", apiProfileSecretName(profileId))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    apiKey: await decryptSecret(data.ciphertext, data.iv),
+    provider: data.provider ?? undefined,
+    baseUrl: data.base_url,
+  };
+}
+
+export async function writeSecret(
+  admin: SupabaseClient,
+  userId: string,
+  name: string,
+  value: string,
+  endpoint?: SecretEndpoint
+): Promise<void> {
+  const { ciphertext, iv } = await encryptSecret(value);
+  const { error } = await admin
+    .from("user_secrets")
+    .upsert({
+      user_id: userId,
+      name,
+      ciphertext,
+      iv,
+      provider: endpoint?.provider ?? null,
+      base_url: endpoint?.baseUrl ?? null,
+    }, { onConflict: "user_id,name" });
+  if (error) throw error;
+}
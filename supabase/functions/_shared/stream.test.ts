@@ -0,0 +1,163 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { ChunkParser, StreamEvent, normalizeStream } from "./stream.ts";
+import { parseOpenAIChunk } from "./providers/openai.ts";
+import { parseAnthropicChunk } from "./providers/anthropic.ts";
+import { parseGeminiChunk } from "./providers/gemini.ts";
+
+// Streams recorded from each provider, see __fixtures__/streams
+function fixture(name: string): Uint8Array {
+  return readFileSync(new URL(`./__fixtures__/streams/${name}.sse`, import.meta.url));
+}
+
+// Delivers the bytes in pieces of `size`, so lines, events and UTF-8 characters get split
+function bodyOf(bytes: Uint8Array, size = bytes.length): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+// The normalized events sent to the client, with [DONE] kept as a marker
+async function normalize(bytes: Uint8Array, parse: ChunkParser, size?: number) {
+  const { stream, done } = normalizeStream(bodyOf(bytes, size), parse);
+  const text = await new Response(stream).text();
+  const events = text
+    .split("\n\n")
+    .filter(Boolean)
+    .map(line => line.replace(/^data: /, ""))
+    .map(data => (data === "[DONE]" ? "[DONE]" : (JSON.parse(data) as StreamEvent)));
+  return { events, outcome: await done };
+}
+
+const REPLY = "Here's a button — ✨";
+
+function textOf(events: (StreamEvent | "[DONE]")[]): string {
+  return events.map(event => (event !== "[DONE]" && event.type === "text" ? event.text : "")).join("");
+}
+
+const recordings: { name: string; parse: ChunkParser; expected: (StreamEvent | "[DONE]")[] }[] = [
+  {
+    name: "openai",
+    parse: parseOpenAIChunk,
+    expected: [
+      { type: "text", text: "Here's a " },
+      { type: "text", text: "button — ✨" },
+      { type: "finish", reason: "stop" },
+      { type: "usage", inputTokens: 1284, outputTokens: 6 },
+      "[DONE]",
+    ],
+  },
+  {
+    name: "anthropic",
+    parse: parseAnthropicChunk,
+    expected: [
+      { type: "usage", inputTokens: 1432, outputTokens: 1 },
+      { type: "text", text: "Here's a " },
+      { type: "text", text: "button — ✨" },
+      { type: "usage", outputTokens: 9 },
+      { type: "finish", reason: "stop" },
+      "[DONE]",
+    ],
+  },
+  {
+    name: "gemini",
+    parse: parseGeminiChunk,
+    expected: [
+      { type: "text", text: "Here's a " },
+      { type: "usage", inputTokens: 1510 },
+      { type: "text", text: "button — ✨" },
+      { type: "usage", inputTokens: 1510 },
+      { type: "usage", inputTokens: 1510, outputTokens: 7 },
+      { type: "finish", reason: "stop" },
+      "[DONE]",
+    ],
+  },
+  {
+    // Ollama's OpenAI-compatible endpoint, which doesn't report usage
+    name: "ollama",
+    parse: parseOpenAIChunk,
+    expected: [
+      { type: "text", text: "Here's a " },
+      { type: "text", text: "button — ✨" },
+      { type: "finish", reason: "stop" },
+      "[DONE]",
+    ],
+  },
+  {
+    // The built-in model gateway: CRLF line endings and keep-alive comments
+    name: "gateway",
+    parse: parseOpenAIChunk,
+    expected: [
+      { type: "text", text: "Here's a " },
+      { type: "text", text: "button — ✨" },
+      { type: "finish", reason: "stop" },
+      { type: "usage", inputTokens: 1502, outputTokens: 7 },
+      "[DONE]",
+    ],
+  },
+];
+
+describe("normalizeStream", () => {
+  describe.each(recordings)("$name stream", ({ name, parse, expected }) => {
+    it("normalizes the recorded stream", async () => {
+      const { events, outcome } = await normalize(fixture(name), parse);
+      expect(events).toEqual(expected);
+      expect(textOf(events)).toBe(REPLY);
+      expect(outcome).toBe("complete");
+    });
+
+    it.each([1, 3, 17, 64])("gives the same events when chunks split every %i bytes", async (size) => {
+      const { events } = await normalize(fixture(name), parse, size);
+      expect(events).toEqual(expected);
+    });
+  });
+
+  it.each([
+    { name: "openai-error", parse: parseOpenAIChunk, message: "The server had an error while processing your request. Sorry about that!" },
+    { name: "anthropic-error", parse: parseAnthropicChunk, message: "Overloaded" },
+    { name: "gemini-error", parse: parseGeminiChunk, message: expect.stringContaining("An internal error has occurred") },
+  ])("reports the error payload in the $name stream", async ({ name, parse, message }) => {
+    const { events, outcome } = await normalize(fixture(name), parse, 5);
+    expect(events.slice(-3)).toEqual([{ type: "error", message }, { type: "finish", reason: "error" }, "[DONE]"]);
+    expect(textOf(events)).not.toBe("");
+    expect(outcome).toBe("error");
+  });
+
+  it("turns a body that fails mid-stream into an error event", async () => {
+    const bytes = fixture("openai");
+    let sent = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent) {
+          controller.error(new Error("connection reset"));
+          return;
+        }
+        sent = true;
+        controller.enqueue(bytes.slice(0, bytes.indexOf(0x0a) + 2));
+      },
+    });
+    const { stream, done } = normalizeStream(body, parseOpenAIChunk);
+    const text = await new Response(stream).text();
+
+    expect(text).toContain('data: {"type":"error","message":"connection reset"}');
+    expect(text.endsWith('data: {"type":"finish","reason":"error"}\n\ndata: [DONE]\n\n')).toBe(true);
+    expect(await done).toBe("error");
+  });
+
+  it("skips malformed chunks and ends a stream without a finish reason with stop", async () => {
+    const bytes = new TextEncoder().encode(
+      'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: {not json\n\n'
+    );
+    const { events, outcome } = await normalize(bytes, parseOpenAIChunk, 4);
+    expect(events).toEqual([{ type: "text", text: "Hi" }, { type: "finish", reason: "stop" }, "[DONE]"]);
+    expect(outcome).toBe("complete");
+  });
+});
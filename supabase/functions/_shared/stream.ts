@@ -0,0 +1,204 @@
+// Every provider streams in its own format. Provider adapters translate them
+// into one SSE schema so the client only has to understand these events:
+//
+//   data: {"type":"text","text":"..."}
+//   data: {"type":"usage","inputTokens":12,"outputTokens":345}
+//   data: {"type":"finish","reason":"stop"}
+//   data: {"type":"error","message":"..."}
+//   data: [DONE]
+//
+// Usage may be reported more than once; later values replace earlier ones field by field.
+
+export type FinishReason = "stop" | "length" | "content_filter" | "tool_calls" | "error" | "other";
+
+export type StreamEvent =
+  | { type: "text"; text: string }
+  | { type: "usage"; inputTokens?: number; outputTokens?: number }
+  | { type: "finish"; reason: FinishReason }
+  | { type: "error"; message: string };
+
+// Turns one parsed SSE payload from the upstream provider into normalized events
+export type ChunkParser = (chunk: unknown) => StreamEvent[];
+
+export function toFinishReason(reason: string | null | undefined): FinishReason | null {
+  if (!reason) return null;
+  switch (reason.toLowerCase()) {
+    case "stop":
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "length":
+    case "max_tokens":
+      return "length";
+    case "content_filter":
+    case "safety":
+    case "recitation":
+    case "blocklist":
+    case "prohibited_content":
+      return "content_filter";
+    case "tool_calls":
+    case "tool_use":
+      return "tool_calls";
+    default:
+      return "other";
+  }
+}
+
+// Yields the data payload of each SSE event in a response body. Stopping the
+// iteration early cancels the body, which ends the upstream request.
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        let line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line.endsWith("\r")) line = line.slice(0, -1);
+
+        // A blank line ends the event
+        if (line === "") {
+          if (data.length > 0) yield data.join("\n");
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        }
+      }
+
+      if (done) {
+        if (buffer.startsWith("data:")) data.push(buffer.slice(5).replace(/^ /, ""));
+        if (data.length > 0) yield data.join("\n");
+        return;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+export function formatEvent(event: StreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+// How a normalized stream ended: the model finished, the provider failed, or the client went away
+export type StreamOutcome = "complete" | "error" | "aborted";
+
+// Sees every event sent to the client, then how the stream ended; used for metering and persistence
+export interface StreamObserver {
+  onEvent?(event: StreamEvent): void;
+  onClose?(outcome: StreamOutcome): void | Promise<void>;
+}
+
+export function combineObservers(...observers: StreamObserver[]): StreamObserver {
+  return {
+    onEvent(event) {
+      observers.forEach(observer => observer.onEvent?.(event));
+    },
+    async onClose(outcome) {
+      await Promise.all(observers.map(observer => observer.onClose?.(outcome)));
+    },
+  };
+}
+
+export interface NormalizeOptions {
+  observer?: StreamObserver;
+  // Keep reading from the provider after the client disconnects, so the reply still completes
+  detached?: boolean;
+  // Ends the generation early with outcome "aborted"; also pass it to the upstream fetch
+  signal?: AbortSignal;
+}
+
+export interface NormalizedStream {
+  stream: ReadableStream<Uint8Array>;
+  // Settles once the upstream body has been fully handled and the observer has closed
+  done: Promise<StreamOutcome>;
+}
+
+// Re-encodes an upstream SSE body in the normalized schema. Upstream failures become
+// an error event, and the stream always ends with a finish event and [DONE].
+// Unless detached, a client disconnect cancels the upstream body at the next chunk.
+export function normalizeStream(
+  body: ReadableStream<Uint8Array>,
+  parse: ChunkParser,
+  { observer = {}, detached = false, signal }: NormalizeOptions = {}
+): NormalizedStream {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  let settle: (outcome: StreamOutcome) => void = () => {};
+  const done = new Promise<StreamOutcome>(resolve => {
+    settle = resolve;
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        observer.onEvent?.(event);
+        if (!cancelled) controller.enqueue(encoder.encode(formatEvent(event)));
+      };
+      const stopped = () => signal?.aborted || (cancelled && !detached);
+      let finished = false;
+      let failed = false;
+
+      try {
+        for await (const payload of readSSE(body)) {
+          if (stopped()) break;
+          if (payload.trim() === "[DONE]") break;
+
+          let chunk: unknown;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            console.error("Skipping malformed stream chunk:", payload.slice(0, 200));
+            continue;
+          }
+
+          for (const event of parse(chunk)) {
+            // A provider error payload fails the reply even if the stream then ends cleanly
+            if (event.type === "error") failed = true;
+            if (event.type === "finish") {
+              if (finished) continue;
+              finished = true;
+              if (event.reason === "error") failed = true;
+            }
+            send(event);
+          }
+        }
+      } catch (error) {
+        // Aborting the upstream fetch surfaces here as an error; that is a stop, not a failure
+        if (!stopped()) {
+          console.error("Upstream stream failed:", error);
+          send({ type: "error", message: error instanceof Error ? error.message : "Stream interrupted" });
+          send({ type: "finish", reason: "error" });
+          finished = true;
+          failed = true;
+        }
+      }
+
+      const outcome: StreamOutcome = stopped() ? "aborted" : failed ? "error" : "complete";
+      if (!cancelled) {
+        if (!finished) send({ type: "finish", reason: outcome === "aborted" ? "other" : failed ? "error" : "stop" });
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      }
+
+      try {
+        await observer.onClose?.(outcome);
+      } catch (error) {
+        console.error("Stream observer failed:", error);
+      }
+      settle(outcome);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return { stream, done };
+}
@@ -0,0 +1,102 @@
+// Running summaries of long conversations. The client decides which turns still fit
+// in the model's context window and asks for the older ones to be folded into
+// conversations.summary; the chat function then adds the summary to the system prompt.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError } from "./http.ts";
+import { SUMMARY_PROMPT } from "./prompts.ts";
+import type { ProviderMessage } from "./providers/index.ts";
+
+export interface ConversationSummary {
+  summary: string | null;
+  // Last message folded into the summary
+  throughMessageId: string | null;
+}
+
+// Runs one non-streaming completion with the conversation's provider
+export type GenerateText = (messages: ProviderMessage[], systemPrompt: string) => Promise<string>;
+
+// Long replies are mostly file contents, which the summary leaves out anyway
+const MAX_MESSAGE_CHARS = 2000;
+
+export async function getConversationSummary(
+  admin: SupabaseClient,
+  conversationId: string
+): Promise<ConversationSummary> {
+  const { data, error } = await admin
+    .from("conversations")
+    .select("summary, summary_message_id")
+    .eq("id", conversationId)
+    .maybeSingle();
+  if (error) throw error;
+  return { summary: data?.summary ?? null, throughMessageId: data?.summary_message_id ?? null };
+}
+
+async function messageCreatedAt(
+  admin: SupabaseClient,
+  conversationId: string,
+  messageId: string
+): Promise<string | null> {
+  const { data, error } = await admin
+    .from("messages")
+    .select("created_at")
+    .eq("id", messageId)
+    .eq("conversation_id", conversationId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.created_at ?? null;
+}
+
+// File blocks become a one-line note of what was written
+function compactMessage(content: string): string {
+  const compacted = content
+    .replace(/<file\s+path="([^"]+)"\s+action="(\w+)"[^>]*?\/>/g, "[$2 $1]")
+    .replace(/<file\s+path="([^"]+)"\s+action="(\w+)"[^>]*>[\s\S]*?<\/file>/g, "[$2 $1]")
+    .trim();
+  return compacted.length > MAX_MESSAGE_CHARS ? `${compacted.slice(0, MAX_MESSAGE_CHARS)}…` : compacted;
+}
+
+// Folds every message after the current summary, up to and including throughMessageId,
+// into a new summary. Returns the existing summary if it already covers that message.
+export async function summarizeConversation(
+  admin: SupabaseClient,
+  conversationId: string,
+  throughMessageId: string,
+  generate: GenerateText
+): Promise<ConversationSummary> {
+  const current = await getConversationSummary(admin, conversationId);
+  const until = await messageCreatedAt(admin, conversationId, throughMessageId);
+  if (!until) throw new HttpError(404, "Message not found");
+  const since = current.throughMessageId
+    ? await messageCreatedAt(admin, conversationId, current.throughMessageId)
+    : null;
+  if (since && until <= since) return current;
+
+  let query = admin
+    .from("messages")
+    .select("role, content")
+    .eq("conversation_id", conversationId)
+    .neq("status", "streaming")
+    .lte("created_at", until)
+    .order("created_at", { ascending: true });
+  if (since) query = query.gt("created_at", since);
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const transcript = (data ?? [])
+    .filter(m => m.content)
+    .map(m => `${m.role === "user" ? "Developer" : "Assistant"}: ${compactMessage(m.content)}`)
+    .join("\n\n");
+  if (!transcript) return current;
+
+  const request = current.summary
+    ? `Summary so far:\n${current.summary}\n\nNew turns:\n${transcript}`
+    : `Conversation:\n${transcript}`;
+  const summary = await generate([{ role: "user", content: request }], SUMMARY_PROMPT);
+
+  const { error: updateError } = await admin
+    .from("conversations")
+    .update({ summary, summary_message_id: throughMessageId })
+    .eq("id", conversationId);
+  if (updateError) throw updateError;
+  return { summary, throughMessageId };
+}
@@ -0,0 +1,115 @@
+// Usage metering and daily quotas. Every generation is recorded in usage_events;
+// quotas only apply to the shared gateway, since custom providers bill the user.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError } from "./http.ts";
+import type { StreamEvent, StreamObserver } from "./stream.ts";
+
+export interface UsageContext {
+  userId: string;
+  projectId: string | null;
+  conversationId: string | null;
+  provider: string;
+  model: string;
+  // Text sent to the model, for estimating prompt tokens when the provider doesn't report them
+  promptText: string;
+}
+
+export interface DailyUsage {
+  tokens: number;
+  requests: number;
+}
+
+// null means unlimited
+export interface DailyQuota {
+  tokens: number | null;
+  requests: number | null;
+}
+
+// Roughly four characters per token for English text and code
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function envLimit(name: string): number | null {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function startOfUtcDay(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
+
+export async function getDailyQuota(admin: SupabaseClient, userId: string): Promise<DailyQuota> {
+  const { data, error } = await admin
+    .from("user_quotas")
+    .select("daily_token_limit, daily_request_limit")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return {
+    tokens: data?.daily_token_limit ?? envLimit("DEFAULT_DAILY_TOKEN_LIMIT"),
+    requests: data?.daily_request_limit ?? envLimit("DEFAULT_DAILY_REQUEST_LIMIT"),
+  };
+}
+
+// Gateway usage since midnight UTC
+export async function getDailyUsage(admin: SupabaseClient, userId: string): Promise<DailyUsage> {
+  const { data, error } = await admin
+    .from("usage_events")
+    .select("prompt_tokens, completion_tokens")
+    .eq("user_id", userId)
+    .eq("provider", "builtin")
+    .gte("created_at", startOfUtcDay());
+  if (error) throw error;
+
+  return {
+    tokens: (data ?? []).reduce((sum, row) => sum + row.prompt_tokens + row.completion_tokens, 0),
+    requests: data?.length ?? 0,
+  };
+}
+
+// Rejects the request with 429 once either daily limit is used up
+export async function enforceDailyQuota(admin: SupabaseClient, userId: string): Promise<void> {
+  const [quota, usage] = await Promise.all([getDailyQuota(admin, userId), getDailyUsage(admin, userId)]);
+
+  if (quota.requests !== null && usage.requests >= quota.requests) {
+    throw new HttpError(429, `Daily limit of ${quota.requests} requests reached. It resets at midnight UTC.`);
+  }
+  if (quota.tokens !== null && usage.tokens >= quota.tokens) {
+    throw new HttpError(429, `Daily limit of ${quota.tokens.toLocaleString()} tokens reached. It resets at midnight UTC.`);
+  }
+}
+
+// Collects usage from the normalized stream and records one usage_events row when it ends
+export function meterUsage(admin: SupabaseClient, context: UsageContext): StreamObserver {
+  const startedAt = Date.now();
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+  let outputChars = 0;
+
+  return {
+    onEvent(event: StreamEvent) {
+      if (event.type === "text") outputChars += event.text.length;
+      if (event.type === "usage") {
+        inputTokens = event.inputTokens ?? inputTokens;
+        outputTokens = event.outputTokens ?? outputTokens;
+      }
+    },
+    async onClose() {
+      const { error } = await admin.from("usage_events").insert({
+        user_id: context.userId,
+        project_id: context.projectId,
+        conversation_id: context.conversationId,
+        provider: context.provider,
+        model: context.model,
+        prompt_tokens: inputTokens ?? estimateTokens(context.promptText),
+        completion_tokens: outputTokens ?? Math.ceil(outputChars / 4),
+        estimated: inputTokens === undefined || outputTokens === undefined,
+        latency_ms: Date.now() - startedAt,
+      });
+      if (error) console.error("Failed to record usage:", error);
+    },
+  };
+}
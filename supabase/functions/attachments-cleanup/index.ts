@@ -0,0 +1,55 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient } from "../_shared/auth.ts";
+import { HttpError, corsHeaders, jsonResponse } from "../_shared/http.ts";
+
+// Removes the stored files of deleted attachments, queued in deleted_attachments by a
+// trigger on the attachments table. The app never calls this: schedule it, e.g. hourly
+// with Supabase Cron, as a POST that sends the service role key as its bearer token.
+const BUCKET = "message-attachments";
+// Paths removed per storage request, and requests per run
+const BATCH_SIZE = 100;
+const MAX_BATCHES = 20;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+      throw new HttpError(401, "Only the scheduler can run the cleanup");
+    }
+
+    const admin = createAdminClient();
+    let removed = 0;
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data, error } = await admin
+        .from("deleted_attachments")
+        .select("storage_path")
+        .order("deleted_at")
+        .limit(BATCH_SIZE);
+      if (error) throw error;
+      if (!data || data.length === 0) break;
+
+      // Removing an object that is already gone isn't an error, so a retried batch is fine
+      const paths = data.map(row => row.storage_path);
+      const { error: removeError } = await admin.storage.from(BUCKET).remove(paths);
+      if (removeError) throw removeError;
+
+      const { error: dequeueError } = await admin
+        .from("deleted_attachments")
+        .delete()
+        .in("storage_path", paths);
+      if (dequeueError) throw dequeueError;
+
+      removed += paths.length;
+      if (paths.length < BATCH_SIZE) break;
+    }
+
+    return jsonResponse({ removed });
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error("Attachments cleanup error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
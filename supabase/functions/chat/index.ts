@@ -1,143 +1,285 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createAdminClient, getOwnedConversation, requireUser } from "../_shared/auth.ts";
+import { assertPublicEndpoint } from "../_shared/endpoints.ts";
+import { HttpError, corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { readApiProfileSecret } from "../_shared/secrets.ts";
+import {
+  abortAssistantMessage,
+  createAssistantMessage,
+  persistAssistantMessage,
+} from "../_shared/messages.ts";
+import { SYSTEM_PROMPT, withConversationSummary, withProjectSnapshot } from "../_shared/prompts.ts";
+import { StreamObserver, combineObservers, normalizeStream } from "../_shared/stream.ts";
+import { getConversationSummary, summarizeConversation } from "../_shared/summary.ts";
+import {
+  UsageContext,
+  enforceDailyQuota,
+  getDailyQuota,
+  getDailyUsage,
+  meterUsage,
+} from "../_shared/usage.ts";
+import {
+  BUILT_IN_MODELS,
+  DEFAULT_MODEL,
+  ProviderAdapter,
+  ProviderConfig,
+  ProviderMessage,
+  builtInAdapter,
+  getProvider,
+  isBuiltInModel,
+} from "../_shared/providers/index.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-const VALID_MODELS = [
-  "google/gemini-3-flash-preview",
-  "google/gemini-2.5-flash",
-  "google/gemini-2.5-pro",
-  "google/gemini-3-pro-preview",
-  "openai/gpt-5-mini",
-  "openai/gpt-5",
-];
-
-const systemPrompt = `You are Eternity Code, an expert AI coding assistant. You help developers build web applications using React, TypeScript, and Tailwind CSS.
-
-Your capabilities:
-- Generate clean, production-ready React/TypeScript code
-- Create modular, reusable components
-- Follow modern best practices and design patterns
-- Provide clear explanations for code decisions
-
-CODE FORMATTING RULES:
-1. Always wrap code in triple backticks with language identifier
-2. Include the filename as a comment at the top:
-\`\`\`tsx
-// ComponentName.tsx
-function ComponentName() {
-  return <div>Content</div>;
+// A custom provider as sent by the client: everything but the key, which is
+// looked up in the user's vault by profile id. Provider and base URL only apply
+// to keyless profiles; a vaulted key is sent only to the endpoint saved with it.
+// Either way the base URL has to be a public server.
+interface CustomApiRequest {
+  enabled?: boolean;
+  provider?: string;
+  profileId?: string;
+  baseUrl?: string;
+  modelId?: string;
 }
-export default ComponentName;
-\`\`\`
-
-3. For CSS files:
-\`\`\`css
-// styles.css
-.container { padding: 20px; }
-\`\`\`
-
-CODE QUALITY:
-- Use functional components with hooks
-- Include TypeScript types
-- Use Tailwind CSS for styling
-- Create self-contained, runnable components
-- Add helpful comments
-- Handle edge cases and errors
-
-Be concise but thorough. Generate complete, working code that can be previewed immediately.`;
-
-// Handle custom API requests
-async function handleCustomApi(
-  messages: any[],
-  customConfig: any
-): Promise<Response> {
-  const { provider, apiKey, baseUrl, modelId } = customConfig;
-  
-  let endpoint = baseUrl || '';
-  let headers: Record<string, string> = {};
-  let body: any = {};
-  
-  switch (provider) {
-    case 'openai':
-      endpoint = baseUrl || 'https://api.openai.com/v1/chat/completions';
-      headers = {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      };
-      body = {
-        model: modelId || 'gpt-4o',
-        messages: [{ role: 'system', content: systemPrompt }, ...messages],
-        stream: true,
-      };
-      break;
-      
-    case 'anthropic':
-      endpoint = baseUrl || 'https://api.anthropic.com/v1/messages';
-      headers = {
-        'x-api-key': apiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01',
-      };
-      body = {
-        model: modelId || 'claude-3-5-sonnet-20241022',
-        max_tokens: 8192,
-        system: systemPrompt,
-        messages: messages,
-        stream: true,
-      };
-      break;
-      
-    case 'google':
-      const model = modelId || 'gemini-2.0-flash';
-      endpoint = baseUrl || `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${apiKey}`;
-      headers = {
-        'Content-Type': 'application/json',
-      };
-      body = {
-        contents: [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          ...messages.map((m: any) => ({
-            role: m.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: m.content }],
-          })),
-        ],
-      };
-      break;
-      
-    case 'custom':
-    default:
-      endpoint = baseUrl || '';
-      headers = {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      };
-      body = {
-        model: modelId || 'default',
-        messages: [{ role: 'system', content: systemPrompt }, ...messages],
-        stream: true,
-      };
+
+interface CustomProvider {
+  adapter: ProviderAdapter | undefined;
+  config: ProviderConfig;
+}
+
+async function resolveCustomProvider(
+  admin: SupabaseClient,
+  userId: string,
+  customApi: CustomApiRequest
+): Promise<CustomProvider> {
+  const secret = customApi.profileId ? await readApiProfileSecret(admin, userId, customApi.profileId) : null;
+  if (!secret) {
+    const baseUrl = typeof customApi.baseUrl === "string" ? customApi.baseUrl.trim() : "";
+    if (baseUrl) await assertPublicEndpoint(baseUrl);
+    return {
+      adapter: getProvider(customApi.provider),
+      config: { baseUrl: baseUrl || undefined, modelId: customApi.modelId },
+    };
   }
-  
-  if (!endpoint) {
-    throw new Error('Custom API endpoint not configured');
+
+  const adapter = getProvider(secret.provider);
+  if (!adapter) {
+    throw new HttpError(400, "Enter this profile's API key again in Settings to confirm where it is sent");
   }
+  if (secret.baseUrl) await assertPublicEndpoint(secret.baseUrl);
+  return {
+    adapter,
+    config: { apiKey: secret.apiKey, baseUrl: secret.baseUrl ?? undefined, modelId: customApi.modelId },
+  };
+}
+
+// The provider a request is served by, and the provider and model recorded with its usage
+interface ChatTarget {
+  adapter: ProviderAdapter;
+  config: ProviderConfig;
+  provider: string;
+  model: string;
+  supportsVision: boolean;
+}
+
+// Uses the custom provider when one is configured, and otherwise the gateway within the daily quota
+async function resolveTarget(
+  admin: SupabaseClient,
+  userId: string,
+  model: string,
+  customApi?: CustomApiRequest
+): Promise<ChatTarget> {
+  if (customApi?.enabled) {
+    const custom = await resolveCustomProvider(admin, userId, customApi);
+    const adapter = custom.adapter ?? getProvider("custom")!;
+    const { config } = custom;
+    if (adapter.requiresApiKey && !config.apiKey) {
+      throw new HttpError(400, `No API key saved for this ${adapter.name} profile`);
+    }
+    if (adapter.requiresBaseUrl && !config.baseUrl) {
+      throw new HttpError(400, "Custom API endpoint not configured");
+    }
+    return {
+      adapter,
+      config,
+      provider: adapter.id,
+      model: config.modelId || adapter.defaultModel,
+      supportsVision: adapter.supportsVision,
+    };
+  }
+
+  // Use Lovable AI Gateway
+  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
   
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(body),
+  if (!LOVABLE_API_KEY) {
+    throw new Error("LOVABLE_API_KEY is not configured");
+  }
+
+  // Validate model
+  const selectedModel = isBuiltInModel(model) ? model : DEFAULT_MODEL;
+
+  await enforceDailyQuota(admin, userId);
+
+  return {
+    adapter: builtInAdapter,
+    config: { apiKey: LOVABLE_API_KEY, modelId: selectedModel },
+    provider: "builtin",
+    model: selectedModel,
+    supportsVision: BUILT_IN_MODELS.some(m => m.id === selectedModel && m.supportsVision),
+  };
+}
+
+// The client downscales images well below these limits
+const MAX_IMAGES_PER_REQUEST = 8;
+const MAX_IMAGE_DATA_LENGTH = 5 * 1024 * 1024;
+const IMAGE_MEDIA_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+function isTurn(message: unknown): message is ProviderMessage {
+  const { role, content } = (message ?? {}) as Partial<ProviderMessage>;
+  return (role === "user" || role === "assistant") && typeof content === "string";
+}
+
+// Keeps only the fields providers expect, and forwards images in user messages
+// when the model can read them
+function prepareMessages(messages: unknown, supportsVision: boolean): ProviderMessage[] {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new HttpError(400, "messages must be a non-empty array");
+  }
+  if (!messages.every(isTurn)) {
+    throw new HttpError(400, "Each message needs a role of user or assistant and text content");
+  }
+  let imageCount = 0;
+  return messages.map(({ role, content, images }) => {
+    if (!supportsVision || role !== "user" || !Array.isArray(images) || images.length === 0) {
+      return { role, content };
+    }
+    for (const image of images) {
+      if (!IMAGE_MEDIA_TYPES.includes(image?.mediaType) || typeof image.data !== "string") {
+        throw new HttpError(400, "Unsupported image attachment");
+      }
+      if (image.data.length > MAX_IMAGE_DATA_LENGTH) {
+        throw new HttpError(413, "An image attachment is too large");
+      }
+    }
+    imageCount += images.length;
+    if (imageCount > MAX_IMAGES_PER_REQUEST) {
+      throw new HttpError(413, `At most ${MAX_IMAGES_PER_REQUEST} images can be sent at once`);
+    }
+    return { role, content, images: images.map(({ mediaType, data }) => ({ mediaType, data })) };
   });
-  
+}
+
+// Supabase's edge runtime keeps the worker alive for promises registered here
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+function keepAlive(promise: Promise<unknown>) {
+  if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(promise);
+}
+
+const MESSAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Sends the conversation to a provider and streams its reply back in the normalized schema.
+// Every generation is metered; replies in a conversation are also saved as they stream,
+// under the id the client picked (so it can stop the reply before any headers arrive),
+// and the saved message id is returned in the X-Message-Id header.
+async function streamFromProvider(
+  adapter: ProviderAdapter,
+  messages: ProviderMessage[],
+  systemPrompt: string,
+  config: ProviderConfig,
+  admin: SupabaseClient,
+  usage: UsageContext,
+  replyId?: string
+): Promise<Response> {
+  const { url, init } = adapter.buildRequest(messages, systemPrompt, config);
+  const meter = meterUsage(admin, usage);
+  const abort = new AbortController();
+  // Redirects could lead from a checked public endpoint to a private one
+  const response = await fetch(url, { ...init, redirect: "error", signal: abort.signal });
+
   if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Custom API error:", response.status, errorText);
-    throw new Error(`Custom API error: ${response.status}`);
+    const body = await response.text();
+    console.error(`${adapter.name} error:`, response.status, body);
+    const error = adapter.mapError(response.status, body);
+    return jsonResponse({ error: error.message }, error.status);
   }
-  
-  return response;
+  if (!response.body) {
+    return jsonResponse({ error: `${adapter.name} returned an empty response` }, 500);
+  }
+
+  const headers: Record<string, string> = { ...corsHeaders, "Content-Type": "text/event-stream" };
+  if (!usage.conversationId) {
+    const { stream } = normalizeStream(response.body, adapter.parseChunk, { observer: meter, signal: abort.signal });
+    return new Response(stream, { headers });
+  }
+
+  // Replies in a conversation keep generating after the client goes away (a reload, a
+  // closed tab); the client reattaches through realtime updates to the saved message
+  const messageId = await createAssistantMessage(admin, usage.conversationId, replyId);
+  if (!messageId) {
+    abort.abort();
+    return jsonResponse({ error: "The reply was stopped" }, 409);
+  }
+  headers["X-Message-Id"] = messageId;
+  const { stream, done } = normalizeStream(response.body, adapter.parseChunk, {
+    observer: combineObservers(meter, persistAssistantMessage(admin, messageId, abort)),
+    detached: true,
+    signal: abort.signal,
+  });
+  keepAlive(done);
+  return new Response(stream, { headers });
+}
+
+// Runs a completion to the end and returns its text, for requests nobody watches stream
+async function generateText(
+  adapter: ProviderAdapter,
+  messages: ProviderMessage[],
+  systemPrompt: string,
+  config: ProviderConfig,
+  observer: StreamObserver
+): Promise<string> {
+  const { url, init } = adapter.buildRequest(messages, systemPrompt, config);
+  const response = await fetch(url, { ...init, redirect: "error" });
+
+  if (!response.ok) {
+    const body = await response.text();
+    console.error(`${adapter.name} error:`, response.status, body);
+    const error = adapter.mapError(response.status, body);
+    throw new HttpError(error.status, error.message);
+  }
+  if (!response.body) throw new HttpError(500, `${adapter.name} returned an empty response`);
+
+  let text = "";
+  let failure: string | null = null;
+  const collect: StreamObserver = {
+    onEvent(event) {
+      if (event.type === "text") text += event.text;
+      if (event.type === "error") failure = event.message;
+    },
+  };
+  const { done } = normalizeStream(response.body, adapter.parseChunk, {
+    observer: combineObservers(observer, collect),
+    detached: true,
+  });
+  if ((await done) !== "complete" || !text.trim()) {
+    throw new HttpError(502, failure ?? `${adapter.name} returned an empty reply`);
+  }
+  return text.trim();
+}
+
+// Lets the settings UI offer the models a configured provider actually has
+async function listModels(adapter: ProviderAdapter, config: ProviderConfig): Promise<Response> {
+  const { url, init } = adapter.modelsRequest(config);
+  const response = await fetch(url, { ...init, redirect: "error" });
+
+  if (!response.ok) {
+    const body = await response.text();
+    console.error(`${adapter.name} models error:`, response.status, body);
+    const error = adapter.mapError(response.status, body);
+    return jsonResponse({ error: error.message }, error.status);
+  }
+
+  return jsonResponse({ models: adapter.parseModels(await response.json()) });
 }
 
 serve(async (req) => {
@@ -146,79 +288,97 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, model = "google/gemini-3-flash-preview", customApi } = await req.json();
-    
-    // If custom API is provided, use it
-    if (customApi && customApi.enabled && customApi.apiKey) {
-      try {
-        const response = await handleCustomApi(messages, customApi);
-        return new Response(response.body, {
-          headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-        });
-      } catch (error) {
-        console.error("Custom API failed:", error);
-        return new Response(
-          JSON.stringify({ error: (error as Error).message }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+    const user = await requireUser(req);
+    const admin = createAdminClient();
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return jsonResponse({ error: "Request body must be a JSON object" }, 400);
+    }
+    const {
+      action,
+      messages,
+      model = DEFAULT_MODEL,
+      customApi,
+      conversationId,
+      messageId,
+      throughMessageId,
+      summaryMessageId,
+      projectSnapshot,
+    } = body;
+
+    if (action === "models") {
+      const { adapter, config } = await resolveCustomProvider(admin, user.id, customApi ?? {});
+      if (!adapter) return jsonResponse({ error: "Unknown provider" }, 400);
+      if (adapter.requiresApiKey && !config.apiKey) {
+        return jsonResponse({ error: `Save an API key for ${adapter.name} first` }, 400);
       }
+      return await listModels(adapter, config);
     }
-    
-    // Use Lovable AI Gateway
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+
+    // Today's gateway usage against the user's quota, for the Usage tab in Settings
+    if (action === "usage") {
+      const [quota, usage] = await Promise.all([getDailyQuota(admin, user.id), getDailyUsage(admin, user.id)]);
+      return jsonResponse({ quota, usage });
     }
 
-    // Validate model
-    const selectedModel = VALID_MODELS.includes(model) ? model : "google/gemini-3-flash-preview";
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: selectedModel,
-        messages: [
-          { role: "system", content: systemPrompt },
-          ...messages,
-        ],
-        stream: true,
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Usage limit reached. Please add credits to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+    const conversation = conversationId ? await getOwnedConversation(admin, user.id, conversationId) : null;
+
+    // Stops a running reply in this conversation, wherever it is being generated
+    if (action === "abort") {
+      if (!conversationId || !messageId) return jsonResponse({ error: "messageId and conversationId are required" }, 400);
+      if (!MESSAGE_ID_PATTERN.test(messageId)) return jsonResponse({ error: "Invalid messageId" }, 400);
+      return jsonResponse({ aborted: await abortAssistantMessage(admin, conversationId, messageId) });
+    }
+
+    const usageContext = {
+      userId: user.id,
+      projectId: conversation?.projectId ?? null,
+      conversationId: conversationId ?? null,
+    };
+
+    // Folds older turns into the conversation's running summary once they no longer
+    // fit in the model's context window; the client then sends only the recent ones
+    if (action === "summarize") {
+      if (!conversationId || !throughMessageId) {
+        return jsonResponse({ error: "throughMessageId and conversationId are required" }, 400);
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: "Failed to connect to AI service" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      const target = await resolveTarget(admin, user.id, model, customApi);
+      const summary = await summarizeConversation(admin, conversationId, throughMessageId, (turns, prompt) =>
+        generateText(target.adapter, turns, prompt, target.config, meterUsage(admin, {
+          ...usageContext,
+          provider: target.provider,
+          model: target.model,
+          promptText: prompt + turns.map(m => m.content).join("\n"),
+        }))
       );
+      return jsonResponse(summary);
     }
 
-    return new Response(response.body, {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
-    });
+    const target = await resolveTarget(admin, user.id, model, customApi);
+    // The client leaves the summary out when it couldn't place it in the history it sends
+    const stored = conversationId ? await getConversationSummary(admin, conversationId) : null;
+    const summary = stored && (summaryMessageId === undefined || summaryMessageId === stored.throughMessageId)
+      ? stored.summary
+      : null;
+    const systemPrompt = withProjectSnapshot(
+      withConversationSummary(SYSTEM_PROMPT, summary),
+      typeof projectSnapshot === "string" ? projectSnapshot : null
+    );
+
+    const turns = prepareMessages(messages, target.supportsVision);
+    if (conversationId && messageId !== undefined && !MESSAGE_ID_PATTERN.test(messageId)) {
+      return jsonResponse({ error: "Invalid messageId" }, 400);
+    }
+
+    return await streamFromProvider(target.adapter, turns, systemPrompt, target.config, admin, {
+      ...usageContext,
+      provider: target.provider,
+      model: target.model,
+      promptText: systemPrompt + turns.map(m => m.content).join("\n"),
+    }, messageId);
   } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
     console.error("Chat function error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
   }
 });
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { createAdminClient, requireUser } from "../_shared/auth.ts";
+import { HttpError, corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { readSecret } from "../_shared/secrets.ts";
+
+// Deploys a project to Vercel or Netlify with the token from the user's vault,
+// so deploy tokens never have to be held by the browser.
+
+interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+interface Deployment {
+  url: string;
+  // Vercel project id or Netlify site id, used to redeploy to the same place
+  targetId: string;
+}
+
+async function upstreamError(response: Response, fallback: string): Promise<never> {
+  const body = await response.text();
+  console.error(fallback, response.status, body);
+  let message = fallback;
+  try {
+    const parsed = JSON.parse(body);
+    message = parsed.error?.message || parsed.message || fallback;
+  } catch {
+    // Not JSON; keep the fallback
+  }
+  throw new HttpError(response.status === 401 || response.status === 403 ? 401 : 502, message);
+}
+
+async function deployToVercel(token: string, name: string, files: ProjectFile[]): Promise<Deployment> {
+  const response = await fetch("https://api.vercel.com/v13/deployments", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      name,
+      files: files.map(f => ({ file: f.path, data: f.content, encoding: "utf-8" })),
+      projectSettings: { buildCommand: "npm run build", outputDirectory: "dist", framework: "vite" },
+    }),
+  });
+
+  if (!response.ok) await upstreamError(response, "Vercel deployment failed");
+  const data = await response.json();
+  return { url: `https://${data.url}`, targetId: data.projectId };
+}
+
+async function deployToNetlify(token: string, files: ProjectFile[], siteId?: string): Promise<Deployment> {
+  const zip = new JSZip();
+  files.forEach(f => zip.file(f.path, f.content));
+  const archive = await zip.generateAsync({ type: "uint8array" });
+
+  const endpoint = siteId
+    ? `https://api.netlify.com/api/v1/sites/${encodeURIComponent(siteId)}/deploys`
+    : "https://api.netlify.com/api/v1/sites";
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/zip" },
+    body: archive,
+  });
+
+  if (!response.ok) await upstreamError(response, "Netlify deployment failed");
+  const data = await response.json();
+  return { url: data.ssl_url || data.url, targetId: data.site_id || data.id };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await requireUser(req);
+
+    const { platform, name, files, targetId } = await req.json();
+    if (platform !== "vercel" && platform !== "netlify") {
+      return jsonResponse({ error: "Unknown platform" }, 400);
+    }
+    if (!Array.isArray(files) || files.length === 0) {
+      return jsonResponse({ error: "No files to deploy" }, 400);
+    }
+
+    const token = await readSecret(createAdminClient(), user.id, `deploy:${platform}`);
+    if (!token) return jsonResponse({ error: `Save a ${platform} token first` }, 400);
+
+    const deployment = platform === "vercel"
+      ? await deployToVercel(token, name, files)
+      : await deployToNetlify(token, files, targetId);
+    return jsonResponse(deployment);
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error("Deploy function error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,76 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient, requireUser } from "../_shared/auth.ts";
+import { assertPublicEndpoint } from "../_shared/endpoints.ts";
+import { HttpError, corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { SecretEndpoint, isValidSecretName, writeSecret } from "../_shared/secrets.ts";
+import { getProvider } from "../_shared/providers/index.ts";
+
+// API profile keys are saved with the endpoint they may be sent to. The endpoint can
+// only change together with the key, so a script running in the page can't redirect it.
+async function parseEndpoint(name: string, provider: unknown, baseUrl: unknown): Promise<SecretEndpoint | undefined> {
+  if (!name.startsWith("api-profile:")) return undefined;
+
+  const adapter = getProvider(typeof provider === "string" ? provider : undefined);
+  if (!adapter) throw new HttpError(400, "Unknown provider");
+
+  const url = typeof baseUrl === "string" ? baseUrl.trim() : "";
+  if (url) {
+    await assertPublicEndpoint(url);
+  } else if (adapter.requiresBaseUrl) {
+    throw new HttpError(400, `${adapter.name} needs a base URL`);
+  }
+  return { provider: adapter.id, baseUrl: url || null };
+}
+
+// The only way in or out of user_secrets. Values are written here and read by
+// the functions that use them; they are never returned to the browser.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await requireUser(req);
+
+    const { action, name, value, provider, baseUrl } = await req.json();
+    const admin = createAdminClient();
+
+    if (action === "list") {
+      const { data, error } = await admin
+        .from("user_secrets")
+        .select("name, updated_at")
+        .eq("user_id", user.id)
+        .order("name");
+      if (error) throw error;
+      return jsonResponse({ secrets: data });
+    }
+
+    if (!isValidSecretName(name)) {
+      return jsonResponse({ error: "Unknown secret" }, 400);
+    }
+
+    if (action === "set") {
+      if (typeof value !== "string" || !value.trim()) {
+        return jsonResponse({ error: "Secret value is required" }, 400);
+      }
+      await writeSecret(admin, user.id, name, value.trim(), await parseEndpoint(name, provider, baseUrl));
+      return jsonResponse({ ok: true });
+    }
+
+    if (action === "delete") {
+      const { error } = await admin
+        .from("user_secrets")
+        .delete()
+        .eq("user_id", user.id)
+        .eq("name", name);
+      if (error) throw error;
+      return jsonResponse({ ok: true });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    if (error instanceof HttpError) return jsonResponse({ error: error.message }, error.status);
+    console.error("Secrets function error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
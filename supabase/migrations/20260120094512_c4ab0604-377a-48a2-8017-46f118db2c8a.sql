@@ -0,0 +1,50 @@
+-- Create project_files table as the canonical file set for each project
+CREATE TABLE public.project_files (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  path TEXT NOT NULL,
+  language TEXT NOT NULL DEFAULT 'text',
+  content TEXT NOT NULL DEFAULT '',
+  updated_by_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, path)
+);
+
+CREATE INDEX idx_project_files_project_id ON public.project_files(project_id);
+
+ALTER TABLE public.project_files ENABLE ROW LEVEL SECURITY;
+
+-- Project files policies (through project ownership)
+CREATE POLICY "Users can view files in their projects" ON public.project_files
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = project_files.project_id AND user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can create files in their projects" ON public.project_files
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = project_files.project_id AND user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can update files in their projects" ON public.project_files
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = project_files.project_id AND user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can delete files in their projects" ON public.project_files
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = project_files.project_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_project_files_updated_at
+  BEFORE UPDATE ON public.project_files
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,20 @@
+-- Create user_secrets table for provider API keys and deploy tokens.
+-- Values are AES-GCM encrypted by the secrets edge function before they are stored.
+CREATE TABLE public.user_secrets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  ciphertext TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- RLS is enabled with no policies: only the service role used by edge functions can
+-- read or write secrets, so even the owner's browser session cannot select them.
+ALTER TABLE public.user_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_secrets_updated_at
+  BEFORE UPDATE ON public.user_secrets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
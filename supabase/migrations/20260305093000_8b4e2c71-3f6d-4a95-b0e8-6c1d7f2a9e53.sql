@@ -0,0 +1,45 @@
+-- Create usage_events table: one row per AI generation, written by the chat edge function
+CREATE TABLE public.usage_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  -- 'builtin' for the shared gateway, otherwise the custom provider id
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  -- True when the provider reported no usage and the counts were estimated from text length
+  estimated BOOLEAN NOT NULL DEFAULT false,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_usage_events_user_created ON public.usage_events(user_id, created_at DESC);
+CREATE INDEX idx_usage_events_project_id ON public.usage_events(project_id);
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own usage; only the edge function (service role) writes it
+CREATE POLICY "Users can view their own usage" ON public.usage_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Create user_quotas table for per-user daily limits on the shared gateway.
+-- NULL limits fall back to the chat function's DEFAULT_DAILY_* settings.
+CREATE TABLE public.user_quotas (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_token_limit INTEGER CHECK (daily_token_limit >= 0),
+  daily_request_limit INTEGER CHECK (daily_request_limit >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Quotas are set by administrators with the service role; users can only see theirs
+CREATE POLICY "Users can view their own quota" ON public.user_quotas
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_quotas_updated_at
+  BEFORE UPDATE ON public.user_quotas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
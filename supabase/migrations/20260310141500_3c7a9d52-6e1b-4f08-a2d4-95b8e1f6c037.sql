@@ -0,0 +1,10 @@
+-- Track the lifecycle of assistant messages, which the chat edge function now
+-- writes while the reply streams. Existing and user messages are complete.
+ALTER TABLE public.messages
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'complete'
+    CHECK (status IN ('streaming', 'complete', 'aborted', 'error')),
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_messages_updated_at
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,6 @@
+-- Running summary of the turns that no longer fit in the model's context window.
+-- summary_message_id is the last message folded into it; later messages are sent as-is.
+-- Written by the chat edge function with the service role.
+ALTER TABLE public.conversations
+  ADD COLUMN summary TEXT,
+  ADD COLUMN summary_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
@@ -0,0 +1,49 @@
+-- Files attached to chat messages. The files live in the private message-attachments
+-- bucket under <user id>/<message id>/, and each row links one of them to its message
+-- so reloaded conversations show the thumbnails and file names again.
+CREATE TABLE public.attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'file')),
+  mime_type TEXT,
+  size_bytes BIGINT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_attachments_message_id ON public.attachments(message_id);
+
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own attachments" ON public.attachments
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can attach files to messages in their conversations" ON public.attachments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.conversations ON conversations.id = messages.conversation_id
+      WHERE messages.id = attachments.message_id AND conversations.user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can delete their own attachments" ON public.attachments
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Private bucket; objects are read through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('message-attachments', 'message-attachments', false, 20971520);
+
+-- The first folder of every object path is the owner's user id
+CREATE POLICY "Users can upload their own message attachments" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'message-attachments' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+CREATE POLICY "Users can read their own message attachments" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'message-attachments' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+CREATE POLICY "Users can delete their own message attachments" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'message-attachments' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,32 @@
+-- Versions saved by hand from the code editor. Assistant versions come from the file
+-- operations in assistant messages; these rows hold the same operations for edits the
+-- user saved, so version history can replay both in order.
+CREATE TABLE public.project_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- FileOperation[] as used by the client
+  operations JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_project_versions_project_id ON public.project_versions(project_id);
+CREATE INDEX idx_project_versions_conversation_id ON public.project_versions(conversation_id);
+
+ALTER TABLE public.project_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of their projects" ON public.project_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = project_versions.project_id AND user_id = auth.uid()
+    )
+  );
+CREATE POLICY "Users can save versions of their projects" ON public.project_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = project_versions.project_id AND user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,7 @@
+-- The endpoint an API profile's key may be sent to, stored next to the key.
+-- The chat function reads these instead of trusting a provider or base URL sent
+-- by the browser, so a key can't be pointed at another server. Keys saved before
+-- this have no endpoint and must be entered again.
+ALTER TABLE public.user_secrets
+  ADD COLUMN provider TEXT,
+  ADD COLUMN base_url TEXT;
@@ -0,0 +1,30 @@
+-- Record when an assistant reply's file operations were applied to the project.
+-- Clients apply them when a reply finishes; a reply that finished with no tab open
+-- is still unapplied and is picked up the next time its conversation is opened.
+ALTER TABLE public.messages
+  ADD COLUMN files_applied_at TIMESTAMP WITH TIME ZONE;
+
+-- Everything that finished before this was applied by the client that streamed it
+UPDATE public.messages
+  SET files_applied_at = updated_at
+  WHERE role = 'assistant' AND status <> 'streaming';
+
+-- Messages have no update policy, so marking goes through this function, which only
+-- touches replies in the caller's own conversations. The final status may not be
+-- written yet when the client that streamed the reply marks it, so it isn't checked.
+CREATE OR REPLACE FUNCTION public.mark_file_operations_applied(message_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messages m
+    SET files_applied_at = now()
+    WHERE m.id = message_id
+      AND m.role = 'assistant'
+      AND m.files_applied_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM public.conversations c
+        WHERE c.id = m.conversation_id AND c.user_id = auth.uid()
+      );
+$$;
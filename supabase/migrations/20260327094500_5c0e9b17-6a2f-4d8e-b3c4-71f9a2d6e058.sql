@@ -0,0 +1,58 @@
+-- Saves edits from the code editor and records them as a user version in one
+-- transaction. An edit only applies while the file still has the content editing
+-- started from (its base, null for a file that didn't exist yet); otherwise nothing is
+-- written and the conflicting paths are returned, unless `force` is set. Runs with the
+-- caller's row level security.
+CREATE OR REPLACE FUNCTION public.save_user_version(
+  project_id UUID,
+  edits JSONB,
+  conversation_id UUID DEFAULT NULL,
+  force BOOLEAN DEFAULT false
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  conflicts TEXT[];
+BEGIN
+  -- Hold the edited files so no reply writes them between the check and the update
+  PERFORM 1 FROM public.project_files f
+    WHERE f.project_id = save_user_version.project_id
+      AND f.path IN (SELECT e->>'path' FROM jsonb_array_elements(save_user_version.edits) e)
+    FOR UPDATE;
+
+  IF NOT save_user_version.force THEN
+    SELECT coalesce(array_agg(e->>'path'), '{}') INTO conflicts
+      FROM jsonb_array_elements(save_user_version.edits) e
+      WHERE (
+        SELECT f.content FROM public.project_files f
+        WHERE f.project_id = save_user_version.project_id
+          AND f.path = e->>'path'
+      ) IS DISTINCT FROM e->>'base';
+    IF array_length(conflicts, 1) > 0 THEN
+      RETURN conflicts;
+    END IF;
+  END IF;
+
+  INSERT INTO public.project_files (project_id, path, language, content, updated_by_message_id)
+    SELECT save_user_version.project_id, e->>'path', e->>'language', e->>'content', NULL
+    FROM jsonb_array_elements(save_user_version.edits) e
+    ON CONFLICT (project_id, path) DO UPDATE
+      SET language = excluded.language, content = excluded.content, updated_by_message_id = NULL;
+
+  -- The same operations an assistant reply would carry, so history replays both alike
+  INSERT INTO public.project_versions (project_id, conversation_id, user_id, operations)
+    SELECT save_user_version.project_id, save_user_version.conversation_id, auth.uid(),
+      jsonb_agg(jsonb_build_object(
+        'type', CASE WHEN e->'base' IS NULL OR e->'base' = 'null'::jsonb THEN 'create' ELSE 'update' END,
+        'path', e->>'path',
+        'language', e->>'language',
+        'content', e->>'content'
+      ))
+    FROM jsonb_array_elements(save_user_version.edits) e;
+
+  RETURN '{}';
+END;
+$$;
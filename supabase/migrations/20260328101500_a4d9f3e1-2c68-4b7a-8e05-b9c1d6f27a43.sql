@@ -0,0 +1,9 @@
+-- Marks assistant replies written before the file-operation protocol. Only these fall
+-- back to reading fenced code blocks as files; in newer replies a code block is just
+-- an example in the prose.
+ALTER TABLE public.messages
+  ADD COLUMN legacy_code_blocks BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.messages
+  SET legacy_code_blocks = true
+  WHERE role = 'assistant';
@@ -0,0 +1,29 @@
+-- Stored files of deleted attachments. Attachment rows also go when their message,
+-- conversation, project or user is deleted, and storage objects can only be removed
+-- through the Storage API, so a trigger queues their paths here. The
+-- attachments-cleanup edge function works the queue; see it for how to schedule it.
+CREATE TABLE public.deleted_attachments (
+  storage_path TEXT NOT NULL PRIMARY KEY,
+  deleted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- RLS is enabled with no policies: only the service role works the queue
+ALTER TABLE public.deleted_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_attachment_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.deleted_attachments (storage_path)
+    VALUES (OLD.storage_path)
+    ON CONFLICT (storage_path) DO NOTHING;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER queue_attachment_removal
+  AFTER DELETE ON public.attachments
+  FOR EACH ROW EXECUTE FUNCTION public.queue_attachment_removal();
@@ -13,6 +13,13 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Code shared with the edge functions, e.g. the AI provider adapters
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
+      // Runtimes served to the preview iframe; their browser builds aren't reachable through package exports
+      "@preview-vendor/react": path.resolve(__dirname, "./node_modules/react/umd"),
+      "@preview-vendor/react-dom": path.resolve(__dirname, "./node_modules/react-dom/umd"),
+      "@preview-vendor/babel": path.resolve(__dirname, "./node_modules/@babel/standalone"),
+      "@preview-vendor/tailwind": path.resolve(__dirname, "./node_modules/tailwindcss-cdn"),
     },
   },
 }));